@@ -0,0 +1,717 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// The CLI runs its command on import, so tests drive it as a subprocess against
+// local stub servers and a throwaway output directory
+
+const CLI = join(import.meta.dir, "bulk-summarize.ts");
+
+let workDir: string;
+const servers: ReturnType<typeof Bun.serve>[] = [];
+
+beforeAll(() => {
+  workDir = mkdtempSync(join(tmpdir(), "bulk-summarize-test-"));
+});
+
+afterAll(() => {
+  for (const server of servers) server.stop(true);
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+function serve(fetch: (request: Request) => Response | Promise<Response>): string {
+  const server = Bun.serve({ port: 0, fetch });
+  servers.push(server);
+  return `http://localhost:${server.port}`;
+}
+
+function writeConfig(name: string, config: object): string {
+  const path = join(workDir, `${name}.json`);
+  writeFileSync(path, JSON.stringify(config, null, 2));
+  return path;
+}
+
+async function run(configPath: string, ...args: string[]): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+  const proc = Bun.spawn(["bun", CLI, "-c", configPath, ...args], { stdout: "pipe", stderr: "pipe" });
+  const [stdout, stderr] = await Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text()]);
+  return { exitCode: await proc.exited, stdout, stderr };
+}
+
+function readCheckpoint(outputDir: string, sourceId: string): any {
+  return JSON.parse(readFileSync(join(outputDir, sourceId, ".checkpoint.json"), "utf8"));
+}
+
+function feedItem(n: number, withLink = true): string {
+  const link = withLink ? `<enclosure url="https://cdn.example/ep${n}.mp3"/>` : "";
+  return `<item><title>Episode ${n}</title><guid>ep-${n}</guid>${link}</item>`;
+}
+
+describe("scan --backfill", () => {
+  test("keeps paging past feed items that have no link", async () => {
+    const items = [6, 5, 4, 3, 2, 1].map((n) => feedItem(n, n !== 5));
+    const feed = `<rss><channel><title>Show</title>${items.join("")}</channel></rss>`;
+    const url = serve(() => new Response(feed, { headers: { "content-type": "application/rss+xml" } }));
+
+    const outputDir = join(workDir, "backfill");
+    const config = writeConfig("backfill", {
+      name: "Backfill",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: { summaryPrompt: "Summarize {title}", outputDir, backfillChunk: 2 },
+    });
+
+    const { exitCode } = await run(config, "scan", "--backfill");
+    expect(exitCode).toBe(0);
+
+    const checkpoint = readCheckpoint(outputDir, "show");
+    expect(Object.values<any>(checkpoint.videos).map((v) => v.title)).toEqual([
+      "Episode 6",
+      "Episode 4",
+      "Episode 3",
+      "Episode 2",
+      "Episode 1",
+    ]);
+    expect(checkpoint.scan.backfill).toMatchObject({ offset: 6, complete: true });
+  });
+
+  test("survives reset --status", async () => {
+    const feed = `<rss><channel><title>Show</title>${[3, 2, 1].map((n) => feedItem(n)).join("")}</channel></rss>`;
+    const url = serve(() => new Response(feed));
+
+    const outputDir = join(workDir, "backfill-reset");
+    const config = writeConfig("backfill-reset", {
+      name: "Backfill",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: { summaryPrompt: "Summarize {title}", outputDir },
+    });
+
+    expect((await run(config, "scan", "--backfill")).exitCode).toBe(0);
+    expect((await run(config, "reset", "show", "--status", "pending")).exitCode).toBe(0);
+
+    const checkpoint = readCheckpoint(outputDir, "show");
+    expect(checkpoint.videos).toEqual({});
+    expect(checkpoint.scan.newest).toBeUndefined();
+    expect(checkpoint.scan.backfill).toMatchObject({ offset: 3, complete: true });
+  });
+});
+
+describe("queue add", () => {
+  test("gives a feed episode the id a scan would", async () => {
+    const feed = `<rss><channel><title>Show</title>${[3, 2, 1].map((n) => feedItem(n)).join("")}</channel></rss>`;
+    const url = serve(() => new Response(feed));
+
+    const outputDir = join(workDir, "queue-add");
+    const config = writeConfig("queue-add", {
+      name: "Queue",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: { summaryPrompt: "Summarize {title}", outputDir },
+    });
+
+    const added = await run(config, "queue", "add", "https://cdn.example/ep2.mp3", "--source", "show");
+    expect(added.exitCode).toBe(0);
+    expect((await run(config, "scan")).exitCode).toBe(0);
+
+    const checkpoint = readCheckpoint(outputDir, "show");
+    const episode2 = Object.entries<any>(checkpoint.videos).filter(([, v]) => v.url === "https://cdn.example/ep2.mp3");
+    expect(episode2).toHaveLength(1);
+    expect(Object.keys(checkpoint.videos)).toHaveLength(3);
+  });
+});
+
+describe("summarize failures", () => {
+  test("store the tool's error output without trailing whitespace", async () => {
+    const url = serve(() => new Response(`<rss><channel><title>Show</title>${feedItem(1)}</channel></rss>`));
+    const stub = join(workDir, "failing-summarize.ts");
+    writeFileSync(stub, 'console.error("Something broke\\n");\nprocess.exit(1);\n');
+
+    const outputDir = join(workDir, "failures");
+    const config = writeConfig("failures", {
+      name: "Failures",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir,
+        retry: { maxAttempts: 1 },
+        backend: { type: "summarize-cli", command: `bun "${stub}"` },
+      },
+    });
+    expect((await run(config, "scan")).exitCode).toBe(0);
+    expect((await run(config, "summarize")).exitCode).toBe(4);
+
+    const [video] = Object.values<any>(readCheckpoint(outputDir, "show").videos);
+    expect(video).toMatchObject({ status: "error", error: "Something broke" });
+    const { stdout } = await run(config, "export", "--format", "csv");
+    expect(stdout.trim().split("\n")).toHaveLength(2);
+  });
+});
+
+describe("summarize backends", () => {
+  const feed = `<rss><channel><title>Show</title>${feedItem(1)}</channel></rss>`;
+
+  test("openai backend sends the transcript and records token usage", async () => {
+    const requests: any[] = [];
+    const url = serve(async (request) => {
+      if (new URL(request.url).pathname !== "/v1/chat/completions") return new Response(feed);
+      requests.push(await request.json());
+      return Response.json({
+        choices: [{ message: { role: "assistant", content: "## Episode one\n\nA stub summary." } }],
+        usage: { prompt_tokens: 120, completion_tokens: 30 },
+      });
+    });
+
+    const outputDir = join(workDir, "openai");
+    const config = writeConfig("openai", {
+      name: "OpenAI",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir,
+        backend: { type: "openai", baseUrl: `${url}/v1`, model: "stub-model" },
+      },
+    });
+
+    expect((await run(config, "scan")).exitCode).toBe(0);
+    const [videoId] = Object.keys(readCheckpoint(outputDir, "show").videos);
+    writeFileSync(join(outputDir, "show", `${videoId}.transcript.txt`), "Hello from the transcript.");
+
+    const { exitCode } = await run(config, "summarize");
+    expect(exitCode).toBe(0);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].model).toBe("stub-model");
+    expect(requests[0].messages.at(-1).content).toContain("Hello from the transcript.");
+
+    expect(readFileSync(join(outputDir, "show", `${videoId}.md`), "utf8")).toContain("A stub summary.");
+    const video = readCheckpoint(outputDir, "show").videos[videoId!];
+    expect(video.status).toBe("summarized");
+    expect(video.usage).toMatchObject({ inputTokens: 120, outputTokens: 30 });
+  });
+
+  test("summarize-cli backend runs a command that has arguments", async () => {
+    const url = serve(() => new Response(feed));
+    const stub = join(workDir, "stub-summarize.ts");
+    writeFileSync(stub, 'console.log(`# Stub\\n\\nSummarized ${process.argv.at(-1)}`);\n');
+
+    const outputDir = join(workDir, "cli");
+    const config = writeConfig("cli", {
+      name: "CLI",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir,
+        backend: { type: "summarize-cli", command: `bun "${stub}"` },
+      },
+    });
+
+    expect((await run(config, "scan")).exitCode).toBe(0);
+    const { exitCode } = await run(config, "summarize");
+    expect(exitCode).toBe(0);
+
+    const [videoId] = Object.keys(readCheckpoint(outputDir, "show").videos);
+    expect(readFileSync(join(outputDir, "show", `${videoId}.md`), "utf8")).toContain(
+      "Summarized https://cdn.example/ep1.mp3"
+    );
+  });
+});
+
+describe("watch", () => {
+  test("retries videos an earlier cycle left pending and notifies after every cycle", async () => {
+    const feed = `<rss><channel><title>Show</title>${feedItem(1)}</channel></rss>`;
+    const notifications: any[] = [];
+    let completions = 0;
+    const url = serve(async (request) => {
+      const { pathname } = new URL(request.url);
+      if (pathname === "/hook") {
+        notifications.push(await request.json());
+        return new Response("ok");
+      }
+      if (pathname !== "/v1/chat/completions") return new Response(feed);
+      completions++;
+      return Response.json({ choices: [{ message: { content: "A stub summary." } }] });
+    });
+
+    const outputDir = join(workDir, "watch");
+    const config = writeConfig("watch", {
+      name: "Watch",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir,
+        backend: { type: "openai", baseUrl: `${url}/v1`, model: "stub-model" },
+        watch: { interval: 0, webhookUrl: `${url}/hook` },
+      },
+    });
+
+    const videoId = new Bun.CryptoHasher("sha1").update("ep-1").digest("hex").slice(0, 12);
+    mkdirSync(join(outputDir, "show"), { recursive: true });
+    writeFileSync(join(outputDir, "show", `${videoId}.transcript.txt`), "Hello from the transcript.");
+    expect((await run(config, "watch", "--once")).exitCode).toBe(0);
+
+    // What a cycle stopped before this video leaves behind
+    const checkpoint = readCheckpoint(outputDir, "show");
+    expect(checkpoint.videos[videoId]).toMatchObject({ status: "summarized", queuedBy: "watch" });
+    const { title, url: videoUrl } = checkpoint.videos[videoId];
+    checkpoint.videos[videoId] = { status: "pending", title, url: videoUrl, queuedBy: "watch" };
+    writeFileSync(join(outputDir, "show", ".checkpoint.json"), JSON.stringify(checkpoint));
+    rmSync(join(outputDir, "show", `${videoId}.md`));
+
+    expect((await run(config, "watch", "--once")).exitCode).toBe(0);
+    expect(completions).toBe(2);
+    expect(readCheckpoint(outputDir, "show").videos[videoId].status).toBe("summarized");
+
+    // Nothing new: still notified
+    expect((await run(config, "watch", "--once")).exitCode).toBe(0);
+    expect(notifications.map((n) => n.summaries.length)).toEqual([1, 1, 0]);
+  });
+});
+
+describe("extract", () => {
+  test("skips extraction files it can't read", async () => {
+    const feed = `<rss><channel><title>Show</title>${[2, 1].map((n) => feedItem(n)).join("")}</channel></rss>`;
+    const url = serve(() => new Response(feed));
+
+    const outputDir = join(workDir, "extract");
+    const config = writeConfig("extract", {
+      name: "Extract",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir,
+        extraction: { schema: { type: "object", properties: { guest: { type: "string" } } } },
+      },
+    });
+    expect((await run(config, "scan")).exitCode).toBe(0);
+
+    const [good, corrupt] = Object.keys(readCheckpoint(outputDir, "show").videos);
+    writeFileSync(join(outputDir, "show", `${good}.json`), JSON.stringify({ data: { guest: "Ada" } }));
+    writeFileSync(join(outputDir, "show", `${corrupt}.json`), "{ not json");
+
+    const { exitCode, stdout, stderr } = await run(config, "extract", "--format", "json");
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).map((row: any) => row.fields)).toEqual([{ guest: "Ada" }]);
+    expect(stderr).toContain(`Skipping show/${corrupt}.json`);
+  });
+});
+
+describe("digest", () => {
+  test("checks the summarize command before doing any work", async () => {
+    const config = writeConfig("digest-missing", {
+      name: "Digest",
+      sources: [{ id: "show", name: "Show", url: "https://feeds.example.com/show.xml", type: "rss" }],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir: join(workDir, "digest-missing"),
+        backend: { type: "summarize-cli", command: "bulk-summarize-test-missing-command" },
+      },
+    });
+    const { exitCode, stderr } = await run(config, "digest", "widgets");
+    expect(exitCode).toBe(3);
+    expect(stderr).toContain("Required command not found: bulk-summarize-test-missing-command");
+  });
+
+  test("fails clearly when merged notes don't fit digestChunkChars", async () => {
+    const feed = `<rss><channel><title>Show</title>${[3, 2, 1].map((n) => feedItem(n)).join("")}</channel></rss>`;
+    const prompts: string[] = [];
+    const url = serve(async (request) => {
+      if (new URL(request.url).pathname !== "/v1/chat/completions") return new Response(feed);
+      const body: any = await request.json();
+      prompts.push(body.messages.at(-1).content);
+      return Response.json({ choices: [{ message: { content: "Widgets are discussed at length. ".repeat(10) } }] });
+    });
+
+    const outputDir = join(workDir, "digest");
+    const config = writeConfig("digest", {
+      name: "Digest",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir,
+        digestChunkChars: 400,
+        backend: { type: "openai", baseUrl: `${url}/v1`, model: "stub-model" },
+      },
+    });
+    expect((await run(config, "scan")).exitCode).toBe(0);
+    for (const videoId of Object.keys(readCheckpoint(outputDir, "show").videos)) {
+      writeFileSync(join(outputDir, "show", `${videoId}.transcript.txt`), "A transcript about widgets.");
+    }
+    expect((await run(config, "summarize")).exitCode).toBe(0);
+
+    const { exitCode, stderr } = await run(config, "digest", "widgets", "--output", join(workDir, "digest.md"));
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("digestChunkChars (400)");
+    expect(prompts.some((prompt) => prompt.startsWith("Write a research report"))).toBe(false);
+  });
+});
+
+describe("combine --format html", () => {
+  test("keeps underscores in link targets out of emphasis", async () => {
+    const feed = `<rss><channel><title>Show</title>${feedItem(1)}</channel></rss>`;
+    const url = serve(async (request) => {
+      if (new URL(request.url).pathname !== "/v1/chat/completions") return new Response(feed);
+      const content = "See [the_docs](https://example.com/a_b_c_d) and _this_ point.";
+      return Response.json({ choices: [{ message: { content } }] });
+    });
+
+    const outputDir = join(workDir, "site");
+    const config = writeConfig("site", {
+      name: "Site",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir,
+        backend: { type: "openai", baseUrl: `${url}/v1`, model: "stub-model" },
+      },
+    });
+    expect((await run(config, "scan")).exitCode).toBe(0);
+    const [videoId] = Object.keys(readCheckpoint(outputDir, "show").videos);
+    writeFileSync(join(outputDir, "show", `${videoId}.transcript.txt`), "A transcript.");
+    expect((await run(config, "summarize")).exitCode).toBe(0);
+
+    const siteDir = join(workDir, "site-html");
+    expect((await run(config, "combine", "--format", "html", "--output", siteDir)).exitCode).toBe(0);
+    const page = readFileSync(join(siteDir, "videos", `show--${videoId}.html`), "utf8");
+    expect(page).toContain(`<a href="https://example.com/a_b_c_d">the_docs</a> and <em>this</em> point.`);
+  });
+});
+
+describe("scan", () => {
+  test("reads Atom feeds and hex character references", async () => {
+    const entry = (n: number) =>
+      `<entry><id>yt:video:v${n}</id><title>Tom &#x26; Jerry &#233;pisode ${n}</title>` +
+      `<link rel="self" href="https://example.com/self"/><link rel="alternate" href="https://www.youtube.com/watch?v=v${n}"/>` +
+      `<published>2024-03-0${n}T10:00:00+00:00</published></entry>`;
+    const feed = `<?xml version="1.0"?><feed xmlns="http://www.w3.org/2005/Atom"><title>Channel</title>${entry(2)}${entry(1)}</feed>`;
+    const url = serve(() => new Response(feed));
+
+    const outputDir = join(workDir, "atom");
+    const config = writeConfig("atom", {
+      name: "Atom",
+      sources: [{ id: "channel", name: "Channel", url: `${url}/feeds/videos.xml` }],
+      settings: { summaryPrompt: "Summarize {title}", outputDir },
+    });
+    expect((await run(config, "scan")).exitCode).toBe(0);
+
+    const videos = Object.values<any>(readCheckpoint(outputDir, "channel").videos);
+    expect(videos.map((v) => [v.title, v.url, v.uploadDate])).toEqual([
+      ["Tom & Jerry épisode 2", "https://www.youtube.com/watch?v=v2", "20240302"],
+      ["Tom & Jerry épisode 1", "https://www.youtube.com/watch?v=v1", "20240301"],
+    ]);
+  });
+
+  test("reports a page that isn't a feed", async () => {
+    const url = serve(() => new Response("<html><body>Not here</body></html>"));
+
+    const config = writeConfig("not-a-feed", {
+      name: "Not a feed",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: { summaryPrompt: "Summarize {title}", outputDir: join(workDir, "not-a-feed") },
+    });
+    const { exitCode, stdout, stderr } = await run(config, "scan");
+    expect(exitCode).toBe(4); // partial failure
+    expect(stdout + stderr).toContain("Not an RSS or Atom feed");
+  });
+});
+
+describe("summarize --rpm", () => {
+  test("rejects a rate that isn't a positive number", async () => {
+    const config = writeConfig("rpm", {
+      name: "Rpm",
+      sources: [],
+      settings: { summaryPrompt: "Summarize {title}", outputDir: join(workDir, "rpm") },
+    });
+    for (const rpm of ["abc", "0", "-5"]) {
+      const { exitCode, stderr } = await run(config, "summarize", "--rpm", rpm);
+      expect(exitCode).toBe(1);
+      expect(stderr).toContain("--rpm");
+    }
+  });
+});
+
+describe("doctor", () => {
+  const summarizeStub = (help: string) => {
+    const path = join(workDir, `summarize-${help.length}.ts`);
+    writeFileSync(
+      path,
+      `const arg = process.argv[2];\nconsole.log(arg === "--version" ? "1.2.3" : ${JSON.stringify(help)});\n`
+    );
+    return `bun "${path}"`;
+  };
+  const feedConfig = (name: string, command: string) =>
+    writeConfig(name, {
+      name: "Doctor",
+      sources: [{ id: "show", name: "Show", url: "https://feeds.example.com/show.xml", type: "rss" }],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir: join(workDir, name),
+        backend: { type: "summarize-cli", command },
+      },
+    });
+
+  test("doesn't require yt-dlp when every source is a feed", async () => {
+    const config = feedConfig("doctor-feeds", summarizeStub("--length <l> --prompt <p> --model <m>"));
+    const { exitCode, stdout } = await run(config, "doctor");
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("✅ No problems found");
+  });
+
+  test("reports a summarize command without the flags it is called with", async () => {
+    const config = feedConfig("doctor-old-summarize", summarizeStub("--length <l>"));
+    const { exitCode, stdout } = await run(config, "doctor");
+    expect(exitCode).toBe(4);
+    expect(stdout).toContain("doesn't support --prompt");
+  });
+
+  test("migrates old checkpoints with --fix and reports unreadable ones", async () => {
+    const name = "doctor-migrate";
+    const config = writeConfig(name, {
+      name: "Doctor",
+      sources: [
+        { id: "old", name: "Old", url: "https://feeds.example.com/old.xml", type: "rss" },
+        { id: "broken", name: "Broken", url: "https://feeds.example.com/broken.xml", type: "rss" },
+      ],
+      settings: {
+        summaryPrompt: "Summarize {title}",
+        outputDir: join(workDir, name),
+        backend: { type: "summarize-cli", command: summarizeStub("--length <l> --prompt <p>") },
+      },
+    });
+    // Version 1 had no schemaVersion and no errorKind
+    mkdirSync(join(workDir, name, "old"), { recursive: true });
+    writeFileSync(
+      join(workDir, name, "old", ".checkpoint.json"),
+      JSON.stringify({
+        sourceId: "old",
+        sourceName: "Old",
+        sourceUrl: "https://feeds.example.com/old.xml",
+        videos: {
+          ep1: { status: "error", title: "Episode 1", url: "https://cdn.example/ep1.mp3", error: "HTTP Error 429: Too Many Requests" },
+        },
+      })
+    );
+    mkdirSync(join(workDir, name, "broken"), { recursive: true });
+    writeFileSync(join(workDir, name, "broken", ".checkpoint.json"), "{ not json");
+
+    const report = await run(config, "doctor");
+    expect(report.exitCode).toBe(4);
+    expect(report.stdout).toContain("old: checkpoint is in format v1 (current: v2)");
+    expect(report.stdout).toContain("broken: .checkpoint.json is corrupt");
+
+    expect((await run(config, "doctor", "--fix")).exitCode).toBe(4); // the corrupt file needs a manual fix
+    const checkpoint = readCheckpoint(join(workDir, name), "old");
+    expect(checkpoint.schemaVersion).toBe(2);
+    expect(checkpoint.videos.ep1.errorKind).toBe("rate-limit");
+  });
+});
+
+describe("add", () => {
+  test("takes one keyword query per --keywords flag, commas included", async () => {
+    const url = serve(() => new Response(`<rss><channel><title>Comma Show</title>${feedItem(1)}</channel></rss>`));
+    const config = writeConfig("add-keywords", {
+      name: "Add",
+      sources: [{ id: "other", name: "Other", url: "https://feeds.example.com/other.xml", type: "rss" }],
+      settings: { summaryPrompt: "Summarize {title}", outputDir: join(workDir, "add-keywords") },
+    });
+
+    const { exitCode } = await run(config, "add", `${url}/feed.xml`, "--keywords", "/a{1,2}/", "--keywords", '"foo, bar"');
+    expect(exitCode).toBe(0);
+    const [, source] = JSON.parse(readFileSync(config, "utf8")).sources;
+    expect(source.keywords).toEqual(["/a{1,2}/", '"foo, bar"']);
+  });
+});
+
+describe("keyword queries", () => {
+  const titles = [
+    "React Native in 2024",
+    "React Server Components",
+    "Vue tutorial for beginners",
+    "Vue news",
+    "Svelte tutorial",
+    "Svelte news",
+    "Machine learning basics",
+    "Learning to fix a machine",
+    "Node.js v20.1 released",
+    "C++ tips",
+    "AI weekly",
+    "What she said",
+  ];
+  const feed = `<rss><channel><title>Show</title>${titles
+    .map((title, n) => `<item><title>${title}</title><guid>t-${n}</guid><link>https://example.com/${n}</link></item>`)
+    .join("")}</channel></rss>`;
+  let url: string;
+  let configs = 0;
+
+  beforeAll(() => {
+    url = serve(() => new Response(feed));
+  });
+
+  async function matchingTitles(query: string): Promise<string[]> {
+    const name = `keywords-${++configs}`;
+    const outputDir = join(workDir, name);
+    const config = writeConfig(name, {
+      name: "Keywords",
+      keywords: [query],
+      keywordMatch: "title",
+      sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+      settings: { summaryPrompt: "Summarize {title}", outputDir },
+    });
+    expect((await run(config, "scan")).exitCode).toBe(0);
+    return Object.values<any>(readCheckpoint(outputDir, "show").videos).map((v) => v.title);
+  }
+
+  test("NOT binds tighter than AND, and AND tighter than OR", async () => {
+    expect(await matchingTitles("react AND NOT native")).toEqual(["React Server Components"]);
+    expect(await matchingTitles("vue OR svelte AND tutorial")).toEqual([
+      "Vue tutorial for beginners",
+      "Vue news",
+      "Svelte tutorial",
+    ]);
+    expect(await matchingTitles("(vue OR svelte) AND tutorial")).toEqual([
+      "Vue tutorial for beginners",
+      "Svelte tutorial",
+    ]);
+  });
+
+  test("matches phrases, literals and regexes on word boundaries", async () => {
+    expect(await matchingTitles('"server components"')).toEqual(["React Server Components"]);
+    expect(await matchingTitles("machine learning")).toEqual(["Machine learning basics"]);
+    expect(await matchingTitles("C++")).toEqual(["C++ tips"]);
+    expect(await matchingTitles("AI")).toEqual(["AI weekly"]);
+    expect(await matchingTitles("/v\\d+\\.\\d+/")).toEqual(["Node.js v20.1 released"]);
+  });
+
+  test("rejects malformed queries when the config loads", async () => {
+    for (const [query, problem] of [
+      ["(react", "missing closing parenthesis"],
+      ['"open', "unterminated quoted phrase"],
+      ["/[/", "bad regex"],
+      ["react OR", "expected a term at end of query"],
+      ["AND vue", "unexpected AND"],
+    ]) {
+      const config = writeConfig(`keywords-bad-${++configs}`, {
+        name: "Keywords",
+        keywords: [query],
+        sources: [{ id: "show", name: "Show", url: `${url}/feed.xml`, type: "rss" }],
+        settings: { summaryPrompt: "Summarize {title}", outputDir: join(workDir, "keywords-bad") },
+      });
+      const { exitCode, stderr } = await run(config, "validate");
+      expect(exitCode).toBe(2);
+      expect(stderr).toContain(`Invalid keyword query "${query}": ${problem}`);
+    }
+  });
+});
+
+describe("source editing", () => {
+  const readText = (path: string) => readFileSync(path, "utf8");
+
+  test("keeps the JSON layout when disabling, enabling and removing sources", async () => {
+    const path = join(workDir, "edit.json");
+    const settings = JSON.stringify({ summaryPrompt: "Summarize {title}", outputDir: join(workDir, "edit-json") });
+    const source = (id: string, extra = "") =>
+      `        { "id": "${id}", "name": "${id.toUpperCase()}", "url": "https://feeds.example.com/${id}.xml", "type": "rss"${extra} }`;
+    const layout = (...sources: string[]) =>
+      `{\n    "name": "Edit",\n    "settings": ${settings},\n    "sources": [\n${sources.join(",\n")}\n    ]\n}\n`;
+    writeFileSync(path, layout(source("a"), source("b", `, "enabled": true`)));
+
+    expect((await run(path, "disable", "a")).exitCode).toBe(0);
+    expect((await run(path, "disable", "b")).exitCode).toBe(0);
+    expect(readText(path)).toBe(layout(source("a", `, "enabled": false`), source("b", `, "enabled": false`)));
+
+    expect((await run(path, "remove", "b")).exitCode).toBe(0);
+    expect(readText(path)).toBe(layout(source("a", `, "enabled": false`)));
+
+    const { exitCode, stderr } = await run(path, "remove", "a");
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Can't remove the only source");
+    expect(readText(path)).toBe(layout(source("a", `, "enabled": false`)));
+  });
+
+  test("keeps YAML comments and spacing", async () => {
+    const path = join(workDir, "edit.yaml");
+    const header = `# Research project\nname: Edit\nsettings:\n  summaryPrompt: "Summarize {title}"\n  outputDir: ${join(workDir, "edit-yaml")}\n\nsources:\n`;
+    const a = `  # The main feed\n  - id: a\n    name: A # short name\n    url: https://feeds.example.com/a.xml\n    type: rss\n`;
+    const b = `  # Weekly\n  - id: b\n    name: B\n    url: https://feeds.example.com/b.xml\n    type: rss\n`;
+    writeFileSync(path, `${header}${a}\n${b}`);
+
+    expect((await run(path, "disable", "a")).exitCode).toBe(0);
+    const disabledA = a + "    enabled: false\n";
+    expect(readText(path)).toBe(`${header}${disabledA}\n${b}`);
+
+    expect((await run(path, "remove", "b")).exitCode).toBe(0);
+    expect(readText(path)).toBe(`${header}${disabledA}`);
+
+    const { exitCode, stderr } = await run(path, "remove", "a");
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Can't remove the only source");
+  });
+});
+
+describe("prompt templates", () => {
+  test("replaces every placeholder and keeps escaped braces", async () => {
+    const feed = `<rss><channel><title>Show</title>${feedItem(1)}</channel></rss>`;
+    const prompts: string[] = [];
+    const url = serve(async (request) => {
+      if (new URL(request.url).pathname !== "/v1/chat/completions") return new Response(feed);
+      const body: any = await request.json();
+      prompts.push(body.messages.at(-1).content);
+      return Response.json({ choices: [{ message: { content: "A stub summary." } }] });
+    });
+
+    const outputDir = join(workDir, "prompts");
+    const config = writeConfig("prompts", {
+      name: "Prompts",
+      sources: [
+        {
+          id: "show",
+          name: "The Show",
+          url: `${url}/feed.xml`,
+          type: "rss",
+          tags: ["pod", "news"],
+          promptAppend: "Mention {source_name}.",
+        },
+      ],
+      settings: {
+        summaryPrompt: "{title} from {source} ({tags}); again: {title}. Keep {{braces}}.",
+        outputDir,
+        backend: { type: "openai", baseUrl: `${url}/v1`, model: "stub-model" },
+      },
+    });
+    expect((await run(config, "scan")).exitCode).toBe(0);
+    const [videoId] = Object.keys(readCheckpoint(outputDir, "show").videos);
+    writeFileSync(join(outputDir, "show", `${videoId}.transcript.txt`), "A transcript.");
+    expect((await run(config, "summarize")).exitCode).toBe(0);
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toStartWith("Episode 1 from show (pod, news); again: Episode 1. Keep {braces}.");
+    expect(prompts[0]).toContain("Mention The Show.");
+  });
+
+  test("rejects unknown placeholders, suggesting the right case", async () => {
+    const cases: [string, string][] = [
+      ["Summarize {Title}", "Unknown placeholder {Title} (did you mean {title}?)"],
+      ["By {SourceName}", "Unknown placeholder {SourceName} (did you mean {source_name}?)"],
+      ["About {topic}", "Unknown placeholder {topic} (available: {title}"],
+    ];
+    for (const [prompt, message] of cases) {
+      const config = writeConfig("prompts-bad", {
+        name: "Prompts",
+        sources: [{ id: "show", name: "Show", url: "https://feeds.example.com/show.xml", type: "rss" }],
+        settings: { summaryPrompt: prompt, outputDir: join(workDir, "prompts-bad") },
+      });
+      const { exitCode, stderr } = await run(config, "validate");
+      expect(exitCode).toBe(2);
+      expect(stderr).toContain(message);
+    }
+  });
+});
+
+describe("reset", () => {
+  test("fails for a source that was never scanned", async () => {
+    const config = writeConfig("reset-unscanned", {
+      name: "Reset",
+      sources: [{ id: "show", name: "Show", url: "https://feeds.example.com/show.xml", type: "rss" }],
+      settings: { summaryPrompt: "Summarize {title}", outputDir: join(workDir, "reset-unscanned") },
+    });
+    const { exitCode, stderr } = await run(config, "reset", "show", "--status", "error");
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("Source not scanned yet: show");
+  });
+});
@@ -10,50 +10,374 @@
  */
 
 import { $ } from "bun";
-import { existsSync, mkdirSync, readdirSync } from "node:fs";
+import {
+  existsSync,
+  linkSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { hostname, tmpdir } from "node:os";
 import { join, basename } from "node:path";
+import { createHash } from "node:crypto";
 import { z } from "zod";
 import pkg from "./package.json";
 
 const VERSION = pkg.version;
 
 // Paths (can be overridden via CLI)
+const CONFIG_FILE_NAMES = ["bulk-summarize.json", "bulk-summarize.yaml", "bulk-summarize.yml"];
 let CONFIG_PATH = "bulk-summarize.json";
 let OUTPUT_DIR = "summaries";
 let COMBINED_FILE = "all-summaries.md";
+let COMBINED_SITE_DIR = "all-summaries-site";
+let DIGEST_FILE = "digest.md";
 
 // ============================================================================
 // Schemas
 // ============================================================================
 
+// Each keyword entry is a query (see parseKeywordQuery); entries are ORed together
+const KeywordQuerySchema = z.string().superRefine((query, ctx) => {
+  try {
+    parseKeywordQuery(query);
+  } catch (error: any) {
+    ctx.addIssue({ code: "custom", message: `Invalid keyword query "${query}": ${error.message}` });
+  }
+});
+
+const KeywordMatchSchema = z.enum(["title", "description", "both"]);
+
+// Prompts may only use known {placeholders}; "{{" and "}}" give literal braces
+const PromptTemplateSchema = z.string().superRefine((template, ctx) => {
+  for (const name of templatePlaceholders(template)) {
+    if (!PROMPT_VARIABLES.includes(name as PromptVariable)) {
+      // {Title} or {SourceName} are likely typos of a known name
+      const loose = (n: string) => n.toLowerCase().replace(/_/g, "");
+      const similar = PROMPT_VARIABLES.find((v) => loose(v) === loose(name));
+      ctx.addIssue({
+        code: "custom",
+        message: similar
+          ? `Unknown placeholder {${name}} (did you mean {${similar}}?)`
+          : `Unknown placeholder {${name}} (available: ${PROMPT_VARIABLES.map((v) => `{${v}}`).join(", ")})`,
+      });
+    }
+  }
+});
+
+// Seconds, or a string like "90s", "15m", "1h30m", "1d" or "1:02:03"
+const DurationSchema = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  const seconds = typeof value === "number" ? value : parseDurationSpec(value);
+  if (seconds === undefined || seconds < 0) {
+    ctx.addIssue({ code: "custom", message: `Invalid duration "${value}" (use e.g. 90, "15m", "1h30m")` });
+    return z.NEVER;
+  }
+  return seconds;
+});
+
+const RetrySchema = z.object({
+  maxAttempts: z.number().int().positive().default(3), // per run, including the first try
+  baseDelayMs: z.number().int().nonnegative().default(5000),
+  maxDelayMs: z.number().int().nonnegative().default(120000),
+});
+
+// `watch`: how often each source is checked, and what happens after a cycle
+const WatchSchema = z.object({
+  interval: DurationSchema.default(6 * 3600), // per source, between scans; sources can override
+  combine: z
+    .union([
+      z.boolean(),
+      z.object({
+        format: z.enum(["markdown", "html"]).default("markdown"),
+        output: z.string().optional(),
+      }),
+    ])
+    .default(false), // re-run `combine` after a cycle that added summaries
+  webhookUrl: z.url("Invalid webhook URL").optional(), // receives a JSON POST after each cycle
+  webhookOn: z.enum(["cycle", "changes"]).default("cycle"), // "changes": only cycles that summarized or failed videos
+  webhookHeaders: z.record(z.string(), z.string()).optional(), // e.g. an Authorization header
+});
+
+// USD per million tokens, keyed by model name (as recorded in summary frontmatter)
+const PriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+});
+
+const SummaryLengthSchema = z.enum(["short", "medium", "long", "xl", "xxl"]);
+
+// Typed fields pulled from every video, written to ${videoId}.json
+const ExtractionSchema = z.object({
+  // JSON Schema for the fields; converted to zod to validate model output
+  schema: z
+    .custom<z.core.JSONSchema.JSONSchema>(isJsonObject, "Extraction schema must be a JSON object")
+    .superRefine((schema, ctx) => {
+      if (schema.type !== "object") {
+        ctx.addIssue({ code: "custom", message: 'Extraction schema must describe an object (type: "object")' });
+        return;
+      }
+      try {
+        z.fromJSONSchema(schema);
+      } catch (error: any) {
+        ctx.addIssue({ code: "custom", message: `Unsupported JSON Schema: ${error.message}` });
+      }
+    }),
+  prompt: PromptTemplateSchema.default("Extract the requested fields from this video.\n\nTitle: {title}"),
+  length: SummaryLengthSchema.optional(), // defaults to settings.summaryLength
+  model: z.string().optional(), // defaults to settings.model (or the backend's model)
+  maxAttempts: z.number().int().positive().default(3), // model calls per video until the output validates
+});
+
+/** Split a command line into argv, honouring single and double quotes */
+function splitCommand(command: string): string[] {
+  return [...command.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map((m) => m[1] ?? m[2] ?? m[3]!);
+}
+
+// How summaries are produced: the summarize CLI (default), or any
+// OpenAI-compatible chat endpoint fed a yt-dlp subtitle transcript
+const BackendSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("summarize-cli"),
+    // e.g. "npx summarize"; split into argv here so it can be executed and looked up on PATH
+    command: z
+      .string()
+      .default("summarize")
+      .transform(splitCommand)
+      .pipe(z.array(z.string()).min(1, "Backend command is empty")),
+  }),
+  z.object({
+    type: z.literal("openai"),
+    baseUrl: z.url("Invalid backend baseUrl"), // e.g. "http://localhost:11434/v1"
+    model: z.string().min(1, "Backend model is required"),
+    apiKeyEnv: z.string().optional(), // name of the env var holding the API key
+    temperature: z.number().min(0).max(2).optional(),
+    timeoutSeconds: z.number().positive().default(600),
+  }),
+]);
+
+// A named artifact produced for every video, e.g. "summary", "quotes", "glossary"
+const OutputSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]*$/, "Output name must be lowercase letters, digits and dashes"),
+  prompt: PromptTemplateSchema.min(1, "Output prompt is required"),
+  length: SummaryLengthSchema.optional(), // defaults to settings.summaryLength
+  model: z.string().optional(), // defaults to settings.model (or the backend's model)
+});
+
+// Shared by settings (defaults) and sources (overrides)
+const VideoFilterFields = {
+  publishedAfter: z.iso.date("Expected a YYYY-MM-DD date").optional(),
+  publishedBefore: z.iso.date("Expected a YYYY-MM-DD date").optional(),
+  minDuration: DurationSchema.optional(),
+  maxDuration: DurationSchema.optional(),
+};
+
 const SourceSchema = z.object({
   id: z.string().min(1, "Source id is required"),
   name: z.string().min(1, "Source name is required"),
-  url: z.url("Invalid YouTube URL"),
-  type: z.enum(["channel", "playlist"]).optional(),
+  url: z.url("Invalid source URL"),
+  // "channel" and "playlist" are accepted for older configs; see resolveSourceType()
+  type: z
+    .enum(["youtube-channel", "youtube-playlist", "rss", "generic-ytdlp", "channel", "playlist"])
+    .optional(),
   enabled: z.boolean().default(true),
   tags: z.array(z.string()).optional(),
-  keywords: z.array(z.string()).optional(),
+  keywords: z.array(KeywordQuerySchema).optional(),
+  keywordMatch: KeywordMatchSchema.optional(),
+  summaryPrompt: PromptTemplateSchema.optional(), // replaces the "summary" output's prompt
+  promptAppend: PromptTemplateSchema.optional(), // added to every output's prompt
+  watchInterval: DurationSchema.optional(), // overrides settings.watch.interval
+  ...VideoFilterFields,
+});
+
+const SettingsSchema = z
+  .object({
+    maxVideosPerSource: z.number().int().positive().default(50),
+    backfillChunk: z.number().int().positive().default(200), // items listed per step of `scan --backfill`
+    summaryLength: SummaryLengthSchema.default("xl"),
+    summaryPrompt: PromptTemplateSchema.min(1, "Summary prompt is required").optional(),
+    outputs: z.array(OutputSchema).min(1, "At least one output is required").optional(),
+    outputDir: z.string().default("summaries"),
+    model: z.string().optional(), // e.g. "cli/claude/haiku"
+    backend: BackendSchema.prefault({ type: "summarize-cli" }),
+    cacheTranscripts: z.boolean().default(true), // save yt-dlp subtitles beside each summary
+    subtitleLanguages: z.string().default("en.*,en"), // yt-dlp --sub-langs
+    retry: RetrySchema.prefault({}),
+    requestsPerMinute: z.number().positive().optional(), // shared by all parallel workers
+    leaseMinutes: z.number().positive().default(30), // after this an "in-progress" video is reclaimed
+    watch: WatchSchema.prefault({}),
+    extraction: ExtractionSchema.optional(),
+    prices: z.record(z.string(), PriceSchema).default({}), // for cost estimates and --max-cost
+    digestChunkChars: z.number().int().positive().default(24000), // per summarizer call in `digest` (~6k tokens)
+    ...VideoFilterFields,
+  })
+  .superRefine((settings, ctx) => {
+    if (!settings.summaryPrompt && !settings.outputs) {
+      ctx.addIssue({ code: "custom", path: ["summaryPrompt"], message: "Summary prompt is required" });
+    }
+    const seen = new Set<string>();
+    settings.outputs?.forEach((output, i) => {
+      if (seen.has(output.name)) {
+        ctx.addIssue({ code: "custom", path: ["outputs", i, "name"], message: `Duplicate output name: ${output.name}` });
+      }
+      seen.add(output.name);
+    });
+  });
+
+const ConfigSchema = z
+  .object({
+    $schema: z.string().optional(), // for editors, e.g. a file written by `bulk-summarize schema`
+    name: z.string().min(1, "Project name is required"),
+    description: z.string().optional(),
+    keywords: z.array(KeywordQuerySchema).default([]),
+    keywordMatch: KeywordMatchSchema.default("both"),
+    sources: z.array(SourceSchema).min(1, "At least one source is required"),
+    settings: SettingsSchema,
+  })
+  .superRefine((config, ctx) => {
+    // Each source id names its output folder and checkpoint
+    const seen = new Set<string>();
+    config.sources.forEach((source, i) => {
+      if (seen.has(source.id)) {
+        ctx.addIssue({ code: "custom", path: ["sources", i, "id"], message: `Duplicate source id: ${source.id}` });
+      }
+      seen.add(source.id);
+    });
+  });
+
+// Checkpoints are written by the tool but validated on load like the config,
+// so a hand-edited or truncated file is reported instead of silently trusted
+
+const ErrorKindSchema = z.enum(["rate-limit", "unavailable", "transcript-missing", "model-error", "unknown"]);
+
+// What produced an output; a mismatch with the current config makes it stale
+const FingerprintSchema = z.object({
+  promptHash: z.string(),
+  model: z.string(),
+  length: z.string(),
+  toolVersion: z.string(),
 });
 
-const SettingsSchema = z.object({
-  maxVideosPerSource: z.number().int().positive().default(50),
-  summaryLength: z.enum(["short", "medium", "long", "xl", "xxl"]).default("xl"),
-  summaryPrompt: z.string().min(1, "Summary prompt is required"),
-  outputDir: z.string().default("summaries"),
-  model: z.string().optional(), // e.g. "cli/claude/haiku"
+// Accumulated over every summarize attempt for a video, across runs
+const UsageSchema = z.object({
+  wallMs: z.number().nonnegative(),
+  transcriptChars: z.number().int().nonnegative().optional(), // of the latest transcript used
+  inputTokens: z.number().int().nonnegative().optional(), // only when the backend reports them
+  outputTokens: z.number().int().nonnegative().optional(),
+  costUsd: z.number().nonnegative().optional(), // tokens priced with settings.prices
 });
 
-const ConfigSchema = z.object({
-  name: z.string().min(1, "Project name is required"),
+const VideoRecordSchema = z.object({
+  status: z.enum(["pending", "in-progress", "summarized", "skipped", "error"]),
+  title: z.string(),
+  url: z.string(),
+  uploadDate: z.string().optional(), // YYYYMMDD, as reported by yt-dlp
+  duration: z.number().optional(), // seconds
   description: z.string().optional(),
-  keywords: z.array(z.string()).default([]),
-  sources: z.array(SourceSchema).min(1, "At least one source is required"),
-  settings: SettingsSchema,
+  error: z.string().optional(),
+  errorKind: ErrorKindSchema.optional(),
+  attempts: z.number().int().nonnegative().optional(), // summarize attempts across all runs
+  processedAt: z.string().optional(),
+  hasTranscript: z.boolean().optional(), // ${videoId}.transcript.txt is cached
+  queuedBy: z.literal("watch").optional(), // found by a watch cycle; later cycles retry it while pending
+  usage: UsageSchema.optional(),
+  extraction: z
+    .object({
+      status: z.enum(["extracted", "error"]),
+      processedAt: z.string().optional(),
+      error: z.string().optional(),
+      schemaHash: z.string().optional(), // extraction schema + prompt it was produced with
+    })
+    .optional(),
+  // Per-output progress; an output missing here is still pending
+  outputs: z
+    .record(
+      z.string(),
+      z.object({
+        status: z.enum(["summarized", "error"]),
+        processedAt: z.string().optional(),
+        error: z.string().optional(),
+        fingerprint: FingerprintSchema.optional(),
+      })
+    )
+    .optional(),
+  leaseOwner: z.string().optional(), // "hostname:pid" of the run working on it
+  leaseExpiresAt: z.string().optional(),
+});
+
+// Bumped when the checkpoint layout changes; older files are migrated on load
+// (see CHECKPOINT_MIGRATIONS)
+const CHECKPOINT_VERSION = 2;
+
+// Where listing left off; absent until the first scan (and after a reset), which
+// makes the next scan go through the whole maxVideosPerSource window
+const ScanStateSchema = z.object({
+  newest: z.string().optional(), // first item of the last listing; incremental scans stop here
+  backfill: z
+    .object({
+      offset: z.number().int().nonnegative(), // items from the newest that backfill has listed
+      complete: z.boolean(), // reached the oldest item
+      updatedAt: z.string(),
+    })
+    .optional(),
+});
+
+const SourceCheckpointSchema = z.object({
+  schemaVersion: z.literal(CHECKPOINT_VERSION),
+  sourceId: z.string(),
+  sourceName: z.string(),
+  sourceUrl: z.string(),
+  lastScanned: z.string().optional(),
+  scan: ScanStateSchema.optional(),
+  videos: z.record(z.string(), VideoRecordSchema),
+});
+
+// The fields read from a yt-dlp JSON entry (--print-json, --dump-single-json);
+// yt-dlp writes null for what it doesn't know
+const YtDlpEntrySchema = z.object({
+  id: z.union([z.string(), z.number()]).nullish(),
+  title: z.string().nullish(),
+  url: z.string().nullish(),
+  webpage_url: z.string().nullish(),
+  upload_date: z.string().nullish(),
+  duration: z.number().nullish(),
+  description: z.string().nullish(),
 });
 
 type Source = z.infer<typeof SourceSchema>;
+type KeywordMatch = z.infer<typeof KeywordMatchSchema>;
+type SourceType = "youtube-channel" | "youtube-playlist" | "rss" | "generic-ytdlp";
 type Config = z.infer<typeof ConfigSchema>;
+type ConfigInput = z.input<typeof ConfigSchema>;
+type ErrorKind = z.infer<typeof ErrorKindSchema>;
+type SummaryLength = z.infer<typeof SummaryLengthSchema>;
+type BackendConfig = z.infer<typeof BackendSchema>;
+type VideoRecord = z.infer<typeof VideoRecordSchema>;
+type SourceCheckpoint = z.infer<typeof SourceCheckpointSchema>;
+type Fingerprint = z.infer<typeof FingerprintSchema>;
+type Usage = z.infer<typeof UsageSchema>;
+type YtDlpEntry = z.infer<typeof YtDlpEntrySchema>;
+
+// The parts of a ${videoId}.json extraction record that `extract` reads
+const ExtractionRecordSchema = z.object({
+  schema_hash: z.string().optional(),
+  data: z.record(z.string(), z.unknown()),
+});
+
+// The parts of an OpenAI-compatible chat completion the openai backend reads
+const ChatCompletionSchema = z.object({
+  choices: z.array(z.object({ message: z.object({ content: z.string().nullish() }) })),
+  usage: z
+    .object({ prompt_tokens: z.number().optional(), completion_tokens: z.number().optional() })
+    .nullish(),
+});
 
 // ============================================================================
 // Internal Types (not from config)
@@ -68,22 +392,6 @@ interface VideoInfo {
   description?: string;
 }
 
-interface VideoRecord {
-  status: "pending" | "summarized" | "skipped" | "error";
-  title: string;
-  url: string;
-  error?: string;
-  processedAt?: string;
-}
-
-interface SourceCheckpoint {
-  sourceId: string;
-  sourceName: string;
-  sourceUrl: string;
-  lastScanned?: string;
-  videos: Record<string, VideoRecord>;
-}
-
 // ============================================================================
 // Path Helpers
 // ============================================================================
@@ -104,32 +412,166 @@ function getSummaryPath(config: Config, sourceId: string, videoId: string): stri
   return join(getSourceDir(config, sourceId), `${videoId}.md`);
 }
 
+/** The "summary" output keeps the original `${videoId}.md` name; others get `${videoId}.${name}.md` */
+function getOutputPath(config: Config, sourceId: string, videoId: string, outputName: string): string {
+  return outputName === DEFAULT_OUTPUT
+    ? getSummaryPath(config, sourceId, videoId)
+    : join(getSourceDir(config, sourceId), `${videoId}.${outputName}.md`);
+}
+
+function getTranscriptPath(config: Config, sourceId: string, videoId: string): string {
+  return join(getSourceDir(config, sourceId), `${videoId}.transcript.txt`);
+}
+
+function getExtractionPath(config: Config, sourceId: string, videoId: string): string {
+  return join(getSourceDir(config, sourceId), `${videoId}.json`);
+}
+
+// ============================================================================
+// Events & Exit Codes
+// ============================================================================
+
+// Documented in the README; 130/143 are used when a signal stops the run
+const EXIT_ERROR = 1; // bad arguments, corrupt checkpoint, other fatal errors
+const EXIT_CONFIG = 2; // config missing or invalid
+const EXIT_MISSING_DEPENDENCY = 3; // yt-dlp or the summarize CLI is not installed
+const EXIT_PARTIAL_FAILURE = 4; // the run finished, but some sources or videos failed
+
+// With --json, stdout carries only NDJSON events and the usual progress text
+// goes to stderr
+let JSON_EVENTS = false;
+
+function emitEvent(event: string, fields: Record<string, unknown> = {}): void {
+  if (!JSON_EVENTS) return;
+  process.stdout.write(JSON.stringify({ event, time: new Date().toISOString(), ...fields }) + "\n");
+}
+
+/** Finish normally, but with EXIT_PARTIAL_FAILURE instead of 0 */
+function markPartialFailure(): void {
+  process.exitCode = EXIT_PARTIAL_FAILURE;
+}
+
+const DEPENDENCY_URLS: Record<string, string> = {
+  "yt-dlp": "https://github.com/yt-dlp/yt-dlp",
+  summarize: "https://summarize.sh",
+};
+
+/** Exit with EXIT_MISSING_DEPENDENCY unless every command is on PATH */
+function requireCommands(commands: string[]): void {
+  const missing = [...new Set(commands)].filter((command) => !Bun.which(command));
+  if (missing.length === 0) return;
+
+  for (const command of missing) {
+    console.error(`❌ Required command not found: ${command}`);
+    if (DEPENDENCY_URLS[command]) console.error(`   Install it from ${DEPENDENCY_URLS[command]}`);
+  }
+  emitEvent("error", { kind: "dependency", missing });
+  process.exit(EXIT_MISSING_DEPENDENCY);
+}
+
+/** The summarize-cli backend runs a local command; check it before any work starts */
+function requireBackendCommand(config: Config): void {
+  const { backend } = config.settings;
+  if (backend.type === "summarize-cli") requireCommands([backend.command[0]!]);
+}
+
 // ============================================================================
 // Config & Checkpoint Management
 // ============================================================================
 
+function isYamlPath(path: string): boolean {
+  return /\.ya?ml$/i.test(path);
+}
+
+/** Parse a config file: YAML for .yaml/.yml, JSON otherwise */
+async function readConfigFile(path: string): Promise<unknown> {
+  const text = await Bun.file(path).text();
+  return isYamlPath(path) ? Bun.YAML.parse(text) : JSON.parse(text);
+}
+
+interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Replace `${NAME}` in every string value with that environment variable
+ * (`$${NAME}` stays literal). Unset variables are reported as issues instead of
+ * becoming empty strings.
+ */
+function interpolateEnv(value: unknown, issues: ConfigIssue[], path: string[] = []): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$?\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (match, name: string) => {
+      if (match.startsWith("$$")) return match.slice(1);
+      const env = process.env[name];
+      if (env === undefined) {
+        issues.push({ path: path.join("."), message: `Environment variable ${name} is not set` });
+        return match;
+      }
+      return env;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => interpolateEnv(item, issues, [...path, String(i)]));
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, issues, [...path, key])])
+    );
+  }
+  return value;
+}
+
+function reportConfigIssues(path: string, issues: ConfigIssue[]): never {
+  console.error(`❌ Invalid config: ${path}\n`);
+  for (const issue of issues) {
+    console.error(`   ${issue.path ? issue.path + ": " : ""}${issue.message}`);
+  }
+  emitEvent("error", { kind: "config", message: `Invalid config: ${path}`, issues });
+  process.exit(EXIT_CONFIG);
+}
+
 async function loadConfig(path: string): Promise<Config> {
   if (!existsSync(path)) {
     console.error(`❌ Config not found: ${path}`);
     console.error(`   Run 'bulk-summarize init' to create a starter config`);
-    process.exit(1);
+    emitEvent("error", { kind: "config", message: `Config not found: ${path}` });
+    process.exit(EXIT_CONFIG);
   }
 
-  const raw = await Bun.file(path).json();
-  const result = ConfigSchema.safeParse(raw);
+  let raw: unknown;
+  try {
+    raw = await readConfigFile(path);
+  } catch (error: any) {
+    reportConfigIssues(path, [{ path: "", message: error.message }]);
+  }
 
+  const envIssues: ConfigIssue[] = [];
+  raw = interpolateEnv(raw, envIssues);
+  if (envIssues.length > 0) reportConfigIssues(path, envIssues);
+
+  const result = ConfigSchema.safeParse(raw);
   if (!result.success) {
-    console.error(`❌ Invalid config: ${path}\n`);
-    for (const issue of result.error.issues) {
-      const path = issue.path.join(".");
-      console.error(`   ${path ? path + ": " : ""}${issue.message}`);
-    }
-    process.exit(1);
+    reportConfigIssues(
+      path,
+      result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+    );
   }
 
   return result.data;
 }
 
+function recordToVideoInfo(id: string, record: VideoRecord): VideoInfo {
+  return {
+    id,
+    title: record.title,
+    url: record.url,
+    uploadDate: record.uploadDate,
+    duration: record.duration,
+    description: record.description,
+  };
+}
+
 function ensureSourceDir(config: Config, sourceId: string): void {
   const dir = getSourceDir(config, sourceId);
   if (!existsSync(dir)) {
@@ -137,455 +579,4890 @@ function ensureSourceDir(config: Config, sourceId: string): void {
   }
 }
 
+/**
+ * Upgrades for older checkpoint files, keyed by the version they upgrade from.
+ * Files written before checkpoints were versioned count as version 1.
+ */
+const CHECKPOINT_MIGRATIONS: Record<number, (checkpoint: Record<string, unknown>) => void> = {
+  // Failures were stored as a bare message; classify them like new ones
+  1: (checkpoint) => {
+    const videos = isJsonObject(checkpoint.videos) ? Object.values(checkpoint.videos) : [];
+    for (const record of videos) {
+      if (!isJsonObject(record) || typeof record.error !== "string" || record.errorKind !== undefined) continue;
+      if (record.status === "error" || record.status === "skipped") {
+        record.errorKind = classifyError(record.error);
+      }
+    }
+  },
+};
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Bring a parsed checkpoint up to CHECKPOINT_VERSION in place; returns the version it had */
+function migrateCheckpoint(raw: unknown): number {
+  if (!isJsonObject(raw)) throw new Error("Not a JSON object");
+  const version = typeof raw.schemaVersion === "number" ? raw.schemaVersion : 1;
+  if (version > CHECKPOINT_VERSION) {
+    throw new Error(`Written by a newer bulk-summarize (checkpoint version ${version}); upgrade to read it`);
+  }
+  for (let from = version; from < CHECKPOINT_VERSION; from++) {
+    CHECKPOINT_MIGRATIONS[from]!(raw);
+  }
+  raw.schemaVersion = CHECKPOINT_VERSION;
+  return version;
+}
+
 async function loadSourceCheckpoint(config: Config, source: Source): Promise<SourceCheckpoint> {
   ensureSourceDir(config, source.id);
   const path = getSourceCheckpointPath(config, source.id);
 
   if (!existsSync(path)) {
     return {
+      schemaVersion: CHECKPOINT_VERSION,
       sourceId: source.id,
       sourceName: source.name,
       sourceUrl: source.url,
       videos: {},
     };
   }
-  return Bun.file(path).json();
+
+  const result = await readSourceCheckpoint(path);
+  if (!result.ok) {
+    console.error(`❌ ${result.corrupt ? "Corrupt" : "Invalid"} checkpoint: ${path}${result.corrupt ? "" : "\n"}`);
+    for (const problem of result.problems) {
+      console.error(`   ${problem}`);
+    }
+    process.exit(EXIT_ERROR);
+  }
+  return result.checkpoint;
+}
+
+type CheckpointRead =
+  | { ok: true; checkpoint: SourceCheckpoint; version: number } // version the file had before migrating
+  | { ok: false; corrupt: boolean; problems: string[] }; // corrupt: not readable JSON at all
+
+/** Read, migrate and validate a checkpoint file, reporting problems instead of exiting */
+async function readSourceCheckpoint(path: string): Promise<CheckpointRead> {
+  let raw: unknown;
+  let version: number;
+  try {
+    raw = await Bun.file(path).json();
+    version = migrateCheckpoint(raw);
+  } catch (error: any) {
+    return { ok: false, corrupt: true, problems: [error.message] };
+  }
+
+  const result = SourceCheckpointSchema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => {
+      const path = issue.path.join(".");
+      return `${path ? path + ": " : ""}${issue.message}`;
+    });
+    return { ok: false, corrupt: false, problems };
+  }
+  return { ok: true, checkpoint: result.data, version };
 }
 
+/**
+ * Write to a temp file and rename over the checkpoint, so an interrupted write
+ * leaves the previous version intact instead of a truncated file.
+ */
 async function saveSourceCheckpoint(config: Config, checkpoint: SourceCheckpoint): Promise<void> {
   ensureSourceDir(config, checkpoint.sourceId);
   const path = getSourceCheckpointPath(config, checkpoint.sourceId);
-  await Bun.write(path, JSON.stringify(checkpoint, null, 2));
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await Bun.write(tmpPath, JSON.stringify(checkpoint, null, 2));
+  renameSync(tmpPath, path);
 }
 
 // ============================================================================
-// YouTube Scanning
+// Config File Editing
 // ============================================================================
 
-async function scanSource(
-  source: Source,
-  keywords: string[],
-  maxResults: number
-): Promise<VideoInfo[]> {
-  console.log(`\n📺 Scanning: ${source.name}`);
-  console.log(`   URL: ${source.url}`);
-  if (keywords.length > 0) {
-    console.log(`   Keywords: ${keywords.join(", ")}`);
-  }
+// add/remove/enable/disable patch the config text in place rather than
+// re-serializing it, so key order, indentation, comments (YAML) and ${ENV_VAR}
+// references all survive
+
+type SourceInput = z.input<typeof SourceSchema>;
+
+type SourceEdit =
+  | { kind: "add"; source: SourceInput }
+  | { kind: "remove"; id: string }
+  | { kind: "set-enabled"; id: string; enabled: boolean };
+
+interface JsonNode {
+  start: number; // offset of the first character
+  end: number; // offset just past the last character
+  members?: { key: string; value: JsonNode }[]; // objects
+  items?: JsonNode[]; // arrays
+}
+
+/** Locate every value in a JSON document that is already known to parse */
+function parseJsonSpans(text: string): JsonNode {
+  let i = 0;
+  const skipWhitespace = () => {
+    while (/\s/.test(text[i] ?? "")) i++;
+  };
+  const parseString = (): string => {
+    const start = i++;
+    while (text[i] !== '"') i += text[i] === "\\" ? 2 : 1;
+    return JSON.parse(text.slice(start, ++i));
+  };
+  const parseValue = (): JsonNode => {
+    skipWhitespace();
+    const start = i;
+
+    if (text[i] === "{" || text[i] === "[") {
+      const isObject = text[i++] === "{";
+      const members: { key: string; value: JsonNode }[] = [];
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      while (text[i] !== (isObject ? "}" : "]")) {
+        if (isObject) {
+          skipWhitespace();
+          const key = parseString();
+          skipWhitespace();
+          i++; // ":"
+          members.push({ key, value: parseValue() });
+        } else {
+          items.push(parseValue());
+        }
+        skipWhitespace();
+        if (text[i] === ",") i++;
+        skipWhitespace();
+      }
+      i++;
+      return isObject ? { start, end: i, members } : { start, end: i, items };
+    }
+
+    if (text[i] === '"') {
+      parseString();
+    } else {
+      while (i < text.length && !/[\s,\]}]/.test(text[i]!)) i++;
+    }
+    return { start, end: i };
+  };
+  return parseValue();
+}
 
-  let scanUrl = source.url;
-  if (source.type !== "playlist" && !source.url.includes("/playlist")) {
-    if (!scanUrl.endsWith("/videos")) {
-      scanUrl = scanUrl.replace(/\/$/, "") + "/videos";
+/** Whitespace at the start of the line containing offset */
+function lineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return text.slice(lineStart).match(/^[ \t]*/)![0];
+}
+
+function editJsonConfig(text: string, edit: SourceEdit): string {
+  const sources = parseJsonSpans(text).members?.find((m) => m.key === "sources")?.value;
+  if (!sources?.items) throw new Error("No sources array in the config");
+  const items = sources.items;
+  const unit = text.match(/\n([ \t]+)\S/)?.[1] ?? "  ";
+  const splice = (start: number, end: number, insert = "") => text.slice(0, start) + insert + text.slice(end);
+
+  if (edit.kind === "add") {
+    const arrayIndent = lineIndent(text, sources.start);
+    const last = items.at(-1);
+    if (!last) {
+      const serialized = JSON.stringify(edit.source, null, unit).replace(/\n/g, "\n" + arrayIndent + unit);
+      return splice(sources.start, sources.end, `[\n${arrayIndent + unit}${serialized}\n${arrayIndent}]`);
     }
+    // Follow the layout of the existing entries
+    const multiline = text.slice(last.start, last.end).includes("\n");
+    const itemIndent = lineIndent(text, last.start);
+    const serialized = multiline
+      ? JSON.stringify(edit.source, null, unit).replace(/\n/g, "\n" + itemIndent)
+      : JSON.stringify(edit.source);
+    const separator = text.slice(sources.start, sources.end).includes("\n") ? ",\n" + itemIndent : ", ";
+    return splice(last.end, last.end, separator + serialized);
   }
 
-  try {
-    const result = await $`yt-dlp \
-      --flat-playlist \
-      --print-json \
-      --no-warnings \
-      --playlist-end ${maxResults} \
-      ${scanUrl}`.quiet();
+  const index = items.findIndex((item) => {
+    const id = item.members?.find((m) => m.key === "id")?.value;
+    return id !== undefined && JSON.parse(text.slice(id.start, id.end)) === edit.id;
+  });
+  const item = items[index];
+  if (!item?.members) throw new Error(`Source not found: ${edit.id}`);
+
+  if (edit.kind === "remove") {
+    if (items.length === 1) throw new Error("Can't remove the only source");
+    // Take the separator after the entry, or before it for the last one
+    return index < items.length - 1
+      ? splice(item.start, items[index + 1]!.start)
+      : splice(items[index - 1]!.end, item.end);
+  }
 
-    const lines = result.stdout.toString().trim().split("\n").filter(Boolean);
-    const allVideos: VideoInfo[] = [];
+  const enabled = item.members.find((m) => m.key === "enabled")?.value;
+  if (enabled) return splice(enabled.start, enabled.end, String(edit.enabled));
+  const last = item.members.at(-1)!.value;
+  const separator = text.slice(item.start, item.end).includes("\n") ? ",\n" + lineIndent(text, last.start) : ", ";
+  return splice(last.end, last.end, `${separator}"enabled": ${edit.enabled}`);
+}
 
-    for (const line of lines) {
-      try {
-        const video = JSON.parse(line);
-        allVideos.push({
-          id: video.id,
-          title: video.title || "Untitled",
-          url: `https://www.youtube.com/watch?v=${video.id}`,
-          uploadDate: video.upload_date,
-          duration: video.duration,
-          description: video.description,
-        });
-      } catch {
-        // Skip malformed JSON
-      }
+/**
+ * The same edits for block-style YAML (`sources:` followed by `- id: ...`
+ * entries). Flow-style lists are rejected rather than rewritten.
+ */
+function editYamlConfig(text: string, edit: SourceEdit): string {
+  const lines = text.split("\n");
+  const header = lines.findIndex((line) => /^sources:\s*(#.*)?$/.test(line));
+  if (header === -1) throw new Error("Only a block-style `sources:` list can be edited; edit the file by hand");
+
+  // The list runs until the next top-level key
+  let blockEnd = lines.findIndex((line, i) => i > header && /^[^\s#-]/.test(line));
+  if (blockEnd === -1) blockEnd = lines.length;
+
+  const starts: number[] = [];
+  let itemIndent: string | undefined;
+  for (let i = header + 1; i < blockEnd; i++) {
+    const dash = lines[i]!.match(/^(\s*)- /);
+    if (dash && (itemIndent === undefined || dash[1] === itemIndent)) {
+      itemIndent = dash[1]!;
+      starts.push(i);
     }
+  }
+  const items = starts.map((start, n) => {
+    // Blank lines and comments between entries stay where they are
+    let end = starts[n + 1] ?? blockEnd;
+    while (end > start + 1 && /^\s*(#.*)?$/.test(lines[end - 1]!)) end--;
+    return { start, end, memberIndent: " ".repeat(lines[start]!.match(/^\s*- +/)![0].length) };
+  });
 
-    let relevantVideos = allVideos;
-    if (keywords.length > 0) {
-      const keywordRegex = new RegExp(keywords.join("|"), "i");
-      relevantVideos = allVideos.filter(
-        (v) => keywordRegex.test(v.title) || keywordRegex.test(v.description || "")
-      );
+  const blank = (i: number) => /^\s*$/.test(lines[i] ?? "");
+  const comment = (i: number) => /^\s*#/.test(lines[i] ?? "");
+
+  if (edit.kind === "add") {
+    const last = items.at(-1);
+    if (!last) throw new Error("Only a block-style `sources:` list can be edited; edit the file by hand");
+    const entry = Bun.YAML.stringify([edit.source], null, 2)
+      .split("\n")
+      .map((line) => itemIndent + line);
+    // Keep a blank line between entries if the list already does
+    let above = last.start - 1;
+    while (comment(above)) above--;
+    if (items.length > 1 && blank(above)) entry.unshift("");
+    lines.splice(last.end, 0, ...entry);
+    return lines.join("\n");
+  }
+
+  const item = items.find(({ start, end, memberIndent }) =>
+    lines.slice(start, end).some((line, i) => {
+      const member = (i === 0 ? line.replace(/^\s*- +/, memberIndent) : line).match(/^(\s*)id:\s*(.*?)\s*(#.*)?$/);
+      return member?.[1] === memberIndent && String(Bun.YAML.parse(member[2]!)) === edit.id;
+    })
+  );
+  if (!item) throw new Error(`Source not found: ${edit.id}`);
+
+  if (edit.kind === "remove") {
+    if (items.length === 1) throw new Error("Can't remove the only source");
+    // Comments directly above an entry go with it, and so does one side of the
+    // blank-line separator, as in the JSON case
+    let start = item.start;
+    let end = item.end;
+    while (start > header + 1 && comment(start - 1)) start--;
+    if (item === items.at(-1)) {
+      while (start > header + 1 && (blank(start - 1) || comment(start - 1))) start--;
+    } else {
+      while (blank(end)) end++;
     }
+    lines.splice(start, end - start);
+    return lines.join("\n");
+  }
 
-    console.log(`   Found ${allVideos.length} videos, ${relevantVideos.length} match keywords`);
-    return relevantVideos;
-  } catch (error: any) {
-    console.error(`   ❌ Error scanning: ${error.message}`);
-    return [];
+  for (let i = item.start; i < item.end; i++) {
+    const line = i === item.start ? lines[i]!.replace(/^\s*- +/, item.memberIndent) : lines[i]!;
+    const member = line.match(/^(\s*)enabled:\s*[^\s#]*(.*)$/);
+    if (member?.[1] === item.memberIndent) {
+      lines[i] = lines[i]!.replace(/enabled:\s*[^\s#]*/, `enabled: ${edit.enabled}`);
+      return lines.join("\n");
+    }
+  }
+  lines.splice(item.end, 0, `${item.memberIndent}enabled: ${edit.enabled}`);
+  return lines.join("\n");
+}
+
+/**
+ * Apply an edit to the config file, checking that the result still loads
+ * before replacing the file (atomically, like checkpoints)
+ */
+async function editConfigFile(path: string, edit: SourceEdit): Promise<void> {
+  const text = await Bun.file(path).text();
+  const updated = isYamlPath(path) ? editYamlConfig(text, edit) : editJsonConfig(text, edit);
+
+  const raw = isYamlPath(path) ? Bun.YAML.parse(updated) : JSON.parse(updated);
+  const result = ConfigSchema.safeParse(interpolateEnv(raw, []));
+  if (!result.success) {
+    throw new Error(`The edited config doesn't validate: ${result.error.issues[0]?.message}`);
   }
+
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await Bun.write(tmpPath, updated);
+  renameSync(tmpPath, path);
 }
 
 // ============================================================================
-// Summarization
+// Source Locks & Leases
 // ============================================================================
 
-async function summarizeVideo(
-  video: VideoInfo,
-  config: Config,
-  sourceId: string
-): Promise<{ success: boolean; error?: string }> {
-  const summaryFile = getSummaryPath(config, sourceId, video.id);
+const RUN_ID = `${hostname()}:${process.pid}`;
+const LOCK_TTL_MS = 5 * 60_000;
 
-  if (existsSync(summaryFile)) {
-    console.log(`   ⏭️  Already exists: ${video.title.substring(0, 50)}...`);
-    return { success: true };
-  }
+interface LockInfo {
+  owner: string; // "hostname:pid"
+  command: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
 
-  console.log(`   📝 Summarizing: ${video.title.substring(0, 55)}...`);
+const heldLocks = new Map<string, string>(); // lock path -> command holding it
+let lockHeartbeat: Timer | undefined;
 
-  const prompt = config.settings.summaryPrompt
-    .replace("{title}", video.title)
-    .replace("{source}", sourceId);
+function getSourceLockPath(config: Config, sourceId: string): string {
+  return join(getSourceDir(config, sourceId), ".lock");
+}
 
-  const args = [
-    "--length", config.settings.summaryLength,
-    "--prompt", prompt,
-  ];
-  if (config.settings.model) {
-    args.push("--model", config.settings.model);
+/** Whether the run that wrote `owner` is gone (only knowable on this host) */
+function isOwnerDead(owner: string): boolean {
+  const [host, pid] = owner.split(":");
+  if (host !== hostname()) return false;
+  try {
+    process.kill(Number(pid), 0);
+    return false;
+  } catch (error: any) {
+    return error.code === "ESRCH";
   }
-  args.push(video.url);
+}
 
+function parseLock(content: string): LockInfo | undefined {
   try {
-    const result = await $`summarize ${args}`.quiet();
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
 
-    const summary = result.stdout.toString();
+/**
+ * Write this run's lock in one step, so another run never reads it half
+ * written: "create" links the finished file into place and fails with EEXIST
+ * if a lock is there; "replace" renames over our own lock to refresh it.
+ */
+function writeLockFile(path: string, mode: "create" | "replace", command: string): void {
+  const now = Date.now();
+  const info: LockInfo = {
+    owner: RUN_ID,
+    command,
+    acquiredAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + LOCK_TTL_MS).toISOString(),
+  };
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(info, null, 2));
+  if (mode === "replace") {
+    renameSync(tmpPath, path);
+    return;
+  }
+  try {
+    linkSync(tmpPath, path);
+  } finally {
+    unlinkSync(tmpPath);
+  }
+}
 
-    const content = `---
-video_id: ${video.id}
-title: "${video.title.replace(/"/g, '\\"')}"
-url: ${video.url}
-source: ${sourceId}
-summarized_at: ${new Date().toISOString()}
----
+/**
+ * Move a stale lock out of the way. The rename is atomic, so of two runs that
+ * both judged it stale only one moves it; if what got moved isn't the lock that
+ * was judged (another run took over in between), it is put back.
+ */
+function removeStaleLock(path: string, staleContent: string): void {
+  const movedPath = `${path}.${process.pid}.stale`;
+  try {
+    renameSync(path, movedPath);
+  } catch (error: any) {
+    if (error.code === "ENOENT") return; // someone else moved it
+    throw error;
+  }
+  if (readFileSync(movedPath, "utf8") !== staleContent) {
+    try {
+      linkSync(movedPath, path);
+    } catch {
+      // A newer lock is already in place
+    }
+  }
+  unlinkSync(movedPath);
+}
 
-# ${video.title}
+/**
+ * Take the per-source lock for this process. A lock left behind by a crashed
+ * run (dead pid on this host, or not refreshed within LOCK_TTL_MS) is taken
+ * over; a live one is reported and false is returned.
+ */
+function lockSource(config: Config, sourceId: string, command: string): boolean {
+  ensureSourceDir(config, sourceId);
+  const path = getSourceLockPath(config, sourceId);
+  if (heldLocks.has(path)) return true;
+
+  // A takeover can lose a race with another run, so try a few times
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      writeLockFile(path, "create", command);
+    } catch (error: any) {
+      if (error.code !== "EEXIST") throw error;
+
+      let content: string;
+      try {
+        content = readFileSync(path, "utf8");
+      } catch (readError: any) {
+        if (readError.code === "ENOENT") continue; // released meanwhile
+        throw readError;
+      }
+      // Locks are written whole, so one that doesn't parse is garbage
+      const lock = parseLock(content);
+      const stale = !lock || isOwnerDead(lock.owner) || new Date(lock.expiresAt).getTime() < Date.now();
+      if (!stale) {
+        console.error(`🔒 ${sourceId} is locked by another run (${lock.command}, ${lock.owner}, since ${lock.acquiredAt})`);
+        console.error(`   Wait for it to finish, or delete ${path} if that run is gone`);
+        return false;
+      }
+      removeStaleLock(path, content);
+      continue;
+    }
 
-**Source:** [Watch Video](${video.url})
+    heldLocks.set(path, command);
+    if (!lockHeartbeat) {
+      lockHeartbeat = setInterval(() => {
+        for (const [held, heldCommand] of heldLocks) writeLockFile(held, "replace", heldCommand);
+      }, LOCK_TTL_MS / 3);
+      lockHeartbeat.unref();
+    }
+    return true;
+  }
 
----
+  console.error(`🔒 Could not take over the lock on ${sourceId}; another run is taking it too`);
+  return false;
+}
 
-${summary}
-`;
+function releaseSourceLocks(): void {
+  for (const path of heldLocks.keys()) {
+    try {
+      unlinkSync(path);
+    } catch {
+      // Already gone
+    }
+  }
+  heldLocks.clear();
+  clearInterval(lockHeartbeat);
+  lockHeartbeat = undefined;
+}
 
-    await Bun.write(summaryFile, content);
-    console.log(`   ✅ Saved`);
-    return { success: true };
-  } catch (error: any) {
-    const errorMsg = error.stderr?.toString() || error.message;
-    console.error(`   ❌ Error: ${errorMsg.substring(0, 100)}`);
-    return { success: false, error: errorMsg };
+function leaseVideo(config: Config, record: VideoRecord): void {
+  record.status = "in-progress";
+  record.leaseOwner = RUN_ID;
+  record.leaseExpiresAt = new Date(Date.now() + config.settings.leaseMinutes * 60_000).toISOString();
+}
+
+function clearLease(record: VideoRecord): void {
+  delete record.leaseOwner;
+  delete record.leaseExpiresAt;
+}
+
+/**
+ * Put "in-progress" videos whose run has crashed back to pending: either the
+ * lease has expired, or the owning process on this host no longer exists.
+ * Returns how many were reclaimed.
+ */
+function reclaimExpiredLeases(checkpoint: SourceCheckpoint): number {
+  let reclaimed = 0;
+  for (const record of Object.values(checkpoint.videos)) {
+    if (record.status !== "in-progress") continue;
+
+    const expired = !record.leaseExpiresAt || new Date(record.leaseExpiresAt).getTime() < Date.now();
+    if (expired || (record.leaseOwner && isOwnerDead(record.leaseOwner))) {
+      record.status = "pending";
+      clearLease(record);
+      reclaimed++;
+    }
   }
+  return reclaimed;
 }
 
 // ============================================================================
-// Commands
+// Keyword Queries
+// ============================================================================
+
+/**
+ * Keyword entries are small boolean queries:
+ *
+ *   react AND NOT native      operators must be uppercase
+ *   "server components" OR rsc
+ *   (vue OR svelte) AND /v?\d+\.\d+/
+ *   machine learning          adjacent bare words form one phrase
+ *
+ * Words and phrases match case-insensitively on word boundaries, so `AI` no
+ * longer matches "said" and `C++` / `node.js` match literally. `/.../flags` is
+ * an opt-in raw regex (case-insensitive unless flags are given).
+ */
+type KeywordQuery =
+  | { kind: "match"; pattern: RegExp }
+  | { kind: "and" | "or"; nodes: KeywordQuery[] }
+  | { kind: "not"; node: KeywordQuery };
+
+type QueryToken =
+  | { kind: "(" | ")" | "AND" | "OR" | "NOT" }
+  | { kind: "word" | "phrase"; text: string }
+  | { kind: "regex"; pattern: RegExp };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function phrasePattern(text: string): RegExp {
+  const body = text.trim().split(/\s+/).map(escapeRegExp).join("\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])`, "iu");
+}
+
+function tokenizeKeywordQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query[i]!;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ kind: ch });
+      i++;
+    } else if (ch === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) throw new Error("unterminated quoted phrase");
+      const text = query.slice(i + 1, end);
+      if (!text.trim()) throw new Error("empty quoted phrase");
+      tokens.push({ kind: "phrase", text });
+      i = end + 1;
+    } else if (ch === "/") {
+      let end = i + 1;
+      while (end < query.length && query[end] !== "/") {
+        end += query[end] === "\\" ? 2 : 1;
+      }
+      if (end >= query.length) throw new Error("unterminated /regex/");
+      const flagsMatch = query.slice(end + 1).match(/^[a-z]*/)!;
+      const source = query.slice(i + 1, end);
+      const flags = flagsMatch[0] || "i";
+      try {
+        tokens.push({ kind: "regex", pattern: new RegExp(source, flags) });
+      } catch (error: any) {
+        throw new Error(`bad regex /${source}/: ${error.message}`);
+      }
+      i = end + 1 + flagsMatch[0].length;
+    } else {
+      const match = query.slice(i).match(/^[^\s()"]+/)!;
+      const word = match[0];
+      if (word === "AND" || word === "OR" || word === "NOT") {
+        tokens.push({ kind: word });
+      } else {
+        tokens.push({ kind: "word", text: word });
+      }
+      i += word.length;
+    }
+  }
+
+  return tokens;
+}
+
+function parseKeywordQuery(query: string): KeywordQuery {
+  const tokens = tokenizeKeywordQuery(query);
+  if (tokens.length === 0) throw new Error("empty query");
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+
+  function parseOr(): KeywordQuery {
+    const nodes = [parseAnd()];
+    while (peek()?.kind === "OR") {
+      pos++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0]! : { kind: "or", nodes };
+  }
+
+  function parseAnd(): KeywordQuery {
+    const nodes = [parseNot()];
+    // Explicit AND, or implicit AND between adjacent terms
+    while (true) {
+      const next = peek();
+      if (next?.kind === "AND") {
+        pos++;
+      } else if (!next || next.kind === "OR" || next.kind === ")") {
+        break;
+      }
+      nodes.push(parseNot());
+    }
+    return nodes.length === 1 ? nodes[0]! : { kind: "and", nodes };
+  }
+
+  function parseNot(): KeywordQuery {
+    if (peek()?.kind === "NOT") {
+      pos++;
+      return { kind: "not", node: parseNot() };
+    }
+    return parseTerm();
+  }
+
+  function parseTerm(): KeywordQuery {
+    const token = tokens[pos++];
+    if (!token) throw new Error("expected a term at end of query");
+
+    switch (token.kind) {
+      case "(": {
+        const node = parseOr();
+        if (tokens[pos++]?.kind !== ")") throw new Error("missing closing parenthesis");
+        return node;
+      }
+      case "phrase":
+        return { kind: "match", pattern: phrasePattern(token.text) };
+      case "regex":
+        return { kind: "match", pattern: token.pattern };
+      case "word": {
+        const words = [token.text];
+        let next = peek();
+        while (next?.kind === "word") {
+          words.push(next.text);
+          pos++;
+          next = peek();
+        }
+        return { kind: "match", pattern: phrasePattern(words.join(" ")) };
+      }
+      default:
+        throw new Error(`unexpected ${token.kind}`);
+    }
+  }
+
+  const node = parseOr();
+  if (pos < tokens.length) throw new Error(`unexpected ${tokens[pos]!.kind}`);
+  return node;
+}
+
+function evaluateKeywordQuery(query: KeywordQuery, text: string): boolean {
+  switch (query.kind) {
+    case "match":
+      query.pattern.lastIndex = 0;
+      return query.pattern.test(text);
+    case "and":
+      return query.nodes.every((node) => evaluateKeywordQuery(node, text));
+    case "or":
+      return query.nodes.some((node) => evaluateKeywordQuery(node, text));
+    case "not":
+      return !evaluateKeywordQuery(query.node, text);
+  }
+}
+
+/** Build a predicate that is true when any of the keyword queries matches */
+function compileKeywordFilter(
+  keywords: string[],
+  match: KeywordMatch
+): (video: VideoInfo) => boolean {
+  const queries = keywords.map(parseKeywordQuery);
+  return (video) => {
+    const text =
+      match === "title"
+        ? video.title
+        : match === "description"
+          ? video.description || ""
+          : `${video.title}\n${video.description || ""}`;
+    return queries.some((query) => evaluateKeywordQuery(query, text));
+  };
+}
+
+// ============================================================================
+// Video Filters
+// ============================================================================
+
+interface VideoFilters {
+  publishedAfter?: string;
+  publishedBefore?: string;
+  minDuration?: number;
+  maxDuration?: number;
+}
+
+/** "90", "90s", "15m", "1h30m", "1d", "1:02:03" -> seconds */
+function parseDurationSpec(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(:\d{1,2}){1,2}$/.test(trimmed)) {
+    return trimmed.split(":").map(Number).reduce((total, n) => total * 60 + n, 0);
+  }
+  const match = trimmed.match(/^(?:(\d+)d)?\s*(?:(\d+)h)?\s*(?:(\d+)m)?\s*(?:(\d+)s?)?$/i);
+  if (!match || !trimmed) return undefined;
+  const [, d = "0", h = "0", m = "0", sec = "0"] = match;
+  return Number(d) * 86400 + Number(h) * 3600 + Number(m) * 60 + Number(sec);
+}
+
+/** Source-level filter values win over settings, field by field */
+function resolveVideoFilters(config: Config, source: Source): VideoFilters {
+  return {
+    publishedAfter: source.publishedAfter ?? config.settings.publishedAfter,
+    publishedBefore: source.publishedBefore ?? config.settings.publishedBefore,
+    minDuration: source.minDuration ?? config.settings.minDuration,
+    maxDuration: source.maxDuration ?? config.settings.maxDuration,
+  };
+}
+
+/**
+ * Date bounds are inclusive. Videos the listing has no date or duration for are
+ * kept, since flat channel listings often omit them.
+ */
+function passesVideoFilters(video: VideoInfo, filters: VideoFilters): boolean {
+  if (video.uploadDate) {
+    if (filters.publishedAfter && video.uploadDate < filters.publishedAfter.replace(/-/g, "")) {
+      return false;
+    }
+    if (filters.publishedBefore && video.uploadDate > filters.publishedBefore.replace(/-/g, "")) {
+      return false;
+    }
+  }
+  if (video.duration !== undefined) {
+    if (filters.minDuration !== undefined && video.duration < filters.minDuration) return false;
+    if (filters.maxDuration !== undefined && video.duration > filters.maxDuration) return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// Source Adapters
+// ============================================================================
+
+interface SourceListing {
+  videos: VideoInfo[];
+  // Entries the listing returned, including ones skipped for lacking an id or
+  // URL; paging goes by this, since fewer than requested means the end
+  consumed: number;
+}
+
+interface SourceAdapter {
+  /** URL actually handed to the lister (e.g. a channel's /videos tab) */
+  normalizeUrl(url: string): string;
+  /** Fetch up to `limit` items, skipping the first `offset` */
+  list(url: string, offset: number, limit: number): Promise<SourceListing>;
+  /** New items show up first, so an incremental scan can stop at a known one */
+  newestFirst: boolean;
+}
+
+function isYouTubeUrl(url: string): boolean {
+  const host = new URL(url).hostname.replace(/^(www|m|music)\./, "");
+  return host === "youtube.com" || host === "youtu.be";
+}
+
+/** A channel or playlist's Atom feed, e.g. /feeds/videos.xml?channel_id=… */
+function isYouTubeFeedUrl(url: string): boolean {
+  return isYouTubeUrl(url) && new URL(url).pathname.startsWith("/feeds/");
+}
+
+function looksLikeFeedUrl(url: string): boolean {
+  const { hostname, pathname } = new URL(url);
+  return (
+    /^feeds?\./.test(hostname) ||
+    /\.(xml|rss)$/i.test(pathname) ||
+    /(^|\/)(rss|feed)(\/|$)/i.test(pathname)
+  );
+}
+
+/**
+ * Pick the adapter type for a source. Explicit new-style types win; the legacy
+ * "channel"/"playlist" values (and a missing type) are resolved from the URL so
+ * older configs that point "channel" sources at RSS feeds keep working.
+ */
+function resolveSourceType(source: Source): SourceType {
+  switch (source.type) {
+    case "youtube-channel":
+    case "youtube-playlist":
+    case "rss":
+    case "generic-ytdlp":
+      return source.type;
+  }
+
+  if (isYouTubeUrl(source.url) && !isYouTubeFeedUrl(source.url)) {
+    return source.type === "playlist" || source.url.includes("/playlist")
+      ? "youtube-playlist"
+      : "youtube-channel";
+  }
+  return looksLikeFeedUrl(source.url) ? "rss" : "generic-ytdlp";
+}
+
+async function listWithYtDlp(
+  url: string,
+  offset: number,
+  limit: number,
+  itemUrl: (entry: YtDlpEntry) => string
+): Promise<SourceListing> {
+  const result = await $`yt-dlp \
+    --flat-playlist \
+    --print-json \
+    --no-warnings \
+    --playlist-start ${offset + 1} \
+    --playlist-end ${offset + limit} \
+    ${url}`.quiet();
+
+  const lines = result.stdout.toString().trim().split("\n").filter(Boolean);
+  const videos: VideoInfo[] = [];
+
+  for (const line of lines) {
+    let entry: YtDlpEntry;
+    try {
+      entry = YtDlpEntrySchema.parse(JSON.parse(line));
+    } catch {
+      continue; // Skip malformed JSON
+    }
+    if (!entry.id) continue;
+    videos.push({
+      id: String(entry.id),
+      title: entry.title || "Untitled",
+      url: itemUrl(entry),
+      uploadDate: entry.upload_date ?? undefined,
+      duration: entry.duration ?? undefined,
+      description: entry.description ?? undefined,
+    });
+  }
+
+  return { videos, consumed: lines.length };
+}
+
+const youtubeWatchUrl = (entry: YtDlpEntry) => `https://www.youtube.com/watch?v=${entry.id}`;
+
+const youtubeChannelAdapter: SourceAdapter = {
+  normalizeUrl(url) {
+    if (isYouTubeFeedUrl(url)) return url;
+    const trimmed = url.replace(/\/$/, "");
+    // Leave explicit tabs (/videos, /streams, /shorts, ...) alone
+    if (/\/(videos|streams|shorts|podcasts|live)$/.test(trimmed)) return trimmed;
+    return trimmed + "/videos";
+  },
+  list: (url, offset, limit) => listWithYtDlp(url, offset, limit, youtubeWatchUrl),
+  newestFirst: true,
+};
+
+// Playlists keep their own order, usually with new videos appended at the end
+const youtubePlaylistAdapter: SourceAdapter = {
+  normalizeUrl: (url) => url,
+  list: (url, offset, limit) => listWithYtDlp(url, offset, limit, youtubeWatchUrl),
+  newestFirst: false,
+};
+
+const genericYtDlpAdapter: SourceAdapter = {
+  normalizeUrl: (url) => url,
+  list: (url, offset, limit) =>
+    listWithYtDlp(url, offset, limit, (entry) => entry.webpage_url || entry.url || url),
+  newestFirst: true,
+};
+
+/** A numeric character reference, left as is when it isn't a valid code point */
+function decodeCharRef(ref: string, code: number): string {
+  return code <= 0x10ffff ? String.fromCodePoint(code) : ref;
+}
+
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (ref, code) => decodeCharRef(ref, Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (ref, code) => decodeCharRef(ref, parseInt(code, 16)))
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function xmlTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+  return match ? decodeXmlText(match[1]!) : undefined;
+}
+
+function xmlAttr(xml: string, tag: string, attr: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}\\s[^>]*\\b${attr}="([^"]*)"`, "i"));
+  return match ? decodeXmlText(match[1]!) : undefined;
+}
+
+/** "1:02:03", "62:03" or "3723" -> seconds */
+function parseFeedDuration(value?: string): number | undefined {
+  if (!value) return undefined;
+  const parts = value.split(":").map(Number);
+  if (parts.some((n) => Number.isNaN(n))) return undefined;
+  return parts.reduce((total, n) => total * 60 + n, 0);
+}
+
+/** RFC 822 pubDate -> yt-dlp style YYYYMMDD */
+function parseFeedDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/** Feed guids are often URLs; hash them into something safe for filenames */
+function feedItemId(guid: string): string {
+  return createHash("sha1").update(guid).digest("hex").slice(0, 12);
+}
+
+/** An RSS <item>, or undefined when it has neither an enclosure nor a link */
+function rssItemInfo(item: string): VideoInfo | undefined {
+  const itemUrl = xmlAttr(item, "enclosure", "url") || xmlTag(item, "link");
+  if (!itemUrl) return undefined;
+  return {
+    id: feedItemId(xmlTag(item, "guid") || itemUrl),
+    title: xmlTag(item, "title") || "Untitled",
+    url: itemUrl,
+    uploadDate: parseFeedDate(xmlTag(item, "pubDate")),
+    duration: parseFeedDuration(xmlTag(item, "itunes:duration")),
+    description: xmlTag(item, "description") || xmlTag(item, "itunes:summary"),
+  };
+}
+
+/** An Atom <entry>, summarized from its enclosure link, else its alternate (page) link */
+function atomEntryInfo(entry: string): VideoInfo | undefined {
+  const links = [...entry.matchAll(/<link\s[^>]*>/gi)].map((match) => match[0]);
+  const linkWithRel = (rel: string) => {
+    const link = links.find((l) => (l.match(/\brel="([^"]*)"/i)?.[1] ?? "alternate") === rel);
+    const href = link?.match(/\bhref="([^"]*)"/i)?.[1];
+    return href ? decodeXmlText(href) : undefined;
+  };
+  const itemUrl = linkWithRel("enclosure") || linkWithRel("alternate");
+  if (!itemUrl) return undefined;
+  return {
+    id: feedItemId(xmlTag(entry, "id") || itemUrl),
+    title: xmlTag(entry, "title") || "Untitled",
+    url: itemUrl,
+    uploadDate: parseFeedDate(xmlTag(entry, "published") || xmlTag(entry, "updated")),
+    description: xmlTag(entry, "summary") || xmlTag(entry, "media:description") || xmlTag(entry, "content"),
+  };
+}
+
+/**
+ * Podcast feeds are read directly: yt-dlp's flat listing of a feed doesn't give
+ * stable ids, and the enclosure is the URL we actually want summarized. Atom
+ * feeds (e.g. a YouTube channel's /feeds/videos.xml) are read the same way.
+ */
+const rssAdapter: SourceAdapter = {
+  normalizeUrl: (url) => url,
+  async list(url, offset, limit) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Feed request failed: ${response.status} ${response.statusText}`);
+    }
+    const xml = await response.text();
+    const items = xml.match(/<item[\s>][\s\S]*?<\/item>/gi) ?? [];
+    const entries = items.length > 0 ? [] : (xml.match(/<entry[\s>][\s\S]*?<\/entry>/gi) ?? []);
+    if (items.length === 0 && entries.length === 0 && !/<(rss|feed|rdf:RDF)[\s>]/i.test(xml)) {
+      throw new Error("Not an RSS or Atom feed");
+    }
+
+    const atom = items.length === 0;
+    const page = (atom ? entries : items).slice(offset, offset + limit);
+    const videos = page.map(atom ? atomEntryInfo : rssItemInfo).filter((video) => video !== undefined);
+    return { videos, consumed: page.length };
+  },
+  newestFirst: true,
+};
+
+const SOURCE_ADAPTERS: Record<SourceType, SourceAdapter> = {
+  "youtube-channel": youtubeChannelAdapter,
+  "youtube-playlist": youtubePlaylistAdapter,
+  rss: rssAdapter,
+  "generic-ytdlp": genericYtDlpAdapter,
+};
+
+interface ProbedSource {
+  name: string;
+  type: SourceType;
+}
+
+/**
+ * Name and type for `add`. Feeds are read directly, as when scanning them;
+ * anything else is resolved by yt-dlp.
+ */
+async function probeSource(url: string): Promise<ProbedSource> {
+  if (looksLikeFeedUrl(url)) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Feed request failed: ${response.status} ${response.statusText}`);
+    }
+    // The feed's own <title> comes before any item's
+    return { name: xmlTag(await response.text(), "title") || new URL(url).hostname, type: "rss" };
+  }
+
+  requireCommands(["yt-dlp"]);
+  const result = await $`yt-dlp \
+    --flat-playlist \
+    --dump-single-json \
+    --no-warnings \
+    --playlist-end 1 \
+    ${url}`.quiet();
+  const info = JSON.parse(result.stdout.toString());
+
+  if (info._type !== "playlist") {
+    // A single video is listed as-is
+    return { name: info.title || url, type: "generic-ytdlp" };
+  }
+  if (String(info.extractor_key).startsWith("Youtube")) {
+    // Channel tabs report the channel's own id; playlists have ids of their own
+    const isChannel = info.id === info.channel_id || String(info.id).startsWith("UC");
+    return isChannel
+      ? { name: info.channel || info.uploader || info.title, type: "youtube-channel" }
+      : { name: info.title, type: "youtube-playlist" };
+  }
+  return { name: info.title || info.uploader || new URL(url).hostname, type: "generic-ytdlp" };
+}
+
+/** "Lex Fridman Podcast" -> "lex-fridman-podcast", made unique with -2, -3, ... */
+function uniqueSourceId(name: string, taken: string[]): string {
+  const base =
+    name
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .slice(0, 40)
+      .replace(/^-+|-+$/g, "") || "source";
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+interface ScanWindow {
+  offset: number; // skip this many of the newest items
+  limit: number; // list at most this many
+  stopAtKnown: boolean; // incremental: stop at the first known item
+}
+
+interface ScanResult {
+  videos: VideoInfo[]; // new items that match the keywords and filters
+  known: VideoInfo[]; // items already in the checkpoint
+  filteredOut: number; // new items that don't match
+  found: number; // items listed
+  consumed: number; // entries the listing went through, skipped ones included
+  first?: string; // id of the first item listed
+  stoppedAtKnown: boolean;
+  exhausted: boolean; // the listing ended before the window did
+  error?: string; // listing failed (after `found` items)
+}
+
+// Incremental scans usually find only a few new items, so they list a small
+// page first and double it while everything is new
+const SCAN_FIRST_PAGE = 10;
+
+async function scanSource(
+  source: Source,
+  isKnown: (videoId: string) => boolean,
+  keywords: string[],
+  keywordMatch: KeywordMatch,
+  filters: VideoFilters,
+  window: ScanWindow
+): Promise<ScanResult> {
+  const adapter = SOURCE_ADAPTERS[resolveSourceType(source)];
+  const url = adapter.normalizeUrl(source.url);
+  const matchesKeywords = keywords.length > 0 ? compileKeywordFilter(keywords, keywordMatch) : () => true;
+  const result: ScanResult = {
+    videos: [],
+    known: [],
+    filteredOut: 0,
+    found: 0,
+    consumed: 0,
+    stoppedAtKnown: false,
+    exhausted: false,
+  };
+
+  try {
+    let pageSize = window.stopAtKnown ? SCAN_FIRST_PAGE : window.limit;
+    while (result.consumed < window.limit && !result.stoppedAtKnown && !result.exhausted) {
+      const size = Math.min(pageSize, window.limit - result.consumed);
+      const page = await adapter.list(url, window.offset + result.consumed, size);
+      result.consumed += page.consumed;
+      result.exhausted = page.consumed < size;
+      result.first ??= page.videos[0]?.id;
+
+      for (const video of page.videos) {
+        result.found++;
+        if (isKnown(video.id)) {
+          result.known.push(video);
+          if (window.stopAtKnown) {
+            result.stoppedAtKnown = true;
+            break;
+          }
+        } else if (matchesKeywords(video) && passesVideoFilters(video, filters)) {
+          result.videos.push(video);
+        } else {
+          result.filteredOut++;
+        }
+      }
+      pageSize *= 2;
+    }
+  } catch (error: any) {
+    result.error = error.stderr?.toString().trim() || error.message;
+    console.error(`   ❌ Error scanning: ${result.error}`);
+  }
+
+  const stop = result.stoppedAtKnown ? ", stopped at a known video" : result.exhausted ? ", end of listing" : "";
+  console.log(
+    `   Listed ${result.found}: ${result.videos.length} new, ${result.known.length} already known, ` +
+      `${result.filteredOut} filtered out${stop}`
+  );
+  return result;
+}
+
+// ============================================================================
+// Transcripts
+// ============================================================================
+
+function formatTimestamp(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  return [h, m, s].map((n) => String(n).padStart(2, "0")).join(":");
+}
+
+/**
+ * Turn a WebVTT subtitle file into "[HH:MM:SS] text" lines. Auto-captions
+ * repeat each line across overlapping cues, so a line is only kept (with the
+ * start time of the cue it first appeared in) if it differs from the last one.
+ */
+function vttToText(vtt: string): string {
+  const lines: string[] = [];
+  let lastLine = "";
+  let cueStart = 0;
+
+  for (const raw of vtt.split(/\r?\n/)) {
+    const timing = raw.match(/^(?:(\d+):)?(\d{2}):(\d{2})\.\d+\s+-->/);
+    if (timing) {
+      const [, h = "0", m, sec] = timing;
+      cueStart = Number(h) * 3600 + Number(m) * 60 + Number(sec);
+      continue;
+    }
+
+    const line = raw
+      .replace(/<[^>]+>/g, "")
+      .replace(/&amp;/g, "&")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&nbsp;/g, " ")
+      .trim();
+    if (!line || line === "WEBVTT" || /^(Kind|Language|NOTE)\b/.test(line) || /^\d+$/.test(line)) {
+      continue;
+    }
+    if (line !== lastLine) {
+      lines.push(`[${formatTimestamp(cueStart)}] ${line}`);
+      lastLine = line;
+    }
+  }
+  return lines.join("\n");
+}
+
+/** Download subtitles (manual, else auto-generated) through yt-dlp as timestamped text */
+async function fetchTranscript(video: VideoInfo, languages: string): Promise<string> {
+  const dir = mkdtempSync(join(tmpdir(), "bulk-summarize-"));
+  try {
+    await $`yt-dlp \
+      --skip-download \
+      --write-subs \
+      --write-auto-subs \
+      --sub-langs ${languages} \
+      --sub-format vtt \
+      --no-warnings \
+      -o ${join(dir, "%(id)s.%(ext)s")} \
+      ${video.url}`.quiet();
+
+    const subtitleFile = readdirSync(dir).find((f) => f.endsWith(".vtt"));
+    if (!subtitleFile) {
+      throw new Error(`No transcript available (no subtitles for ${languages})`);
+    }
+    const text = vttToText(await Bun.file(join(dir, subtitleFile)).text());
+    if (!text) {
+      throw new Error("No transcript available (subtitles are empty)");
+    }
+    return text;
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+interface Transcript {
+  text: string;
+  path: string;
+}
+
+/**
+ * Return the cached transcript, fetching and caching it first if needed.
+ * Returns undefined when there is none and `required` is false, so backends
+ * that can work from the URL alone (e.g. the summarize CLI transcribing audio)
+ * still get a chance.
+ */
+async function loadTranscript(
+  video: VideoInfo,
+  config: Config,
+  sourceId: string,
+  required: boolean
+): Promise<Transcript | undefined> {
+  const path = getTranscriptPath(config, sourceId, video.id);
+  if (existsSync(path)) {
+    return { text: await Bun.file(path).text(), path };
+  }
+  if (!config.settings.cacheTranscripts && !required) {
+    return undefined;
+  }
+
+  try {
+    const text = await fetchTranscript(video, config.settings.subtitleLanguages);
+    if (config.settings.cacheTranscripts) {
+      await Bun.write(path, text + "\n");
+    }
+    return { text, path };
+  } catch (error) {
+    if (required) throw error;
+    return undefined;
+  }
+}
+
+// ============================================================================
+// Summarizer Backends
+// ============================================================================
+
+interface SummaryRequest {
+  video: VideoInfo;
+  prompt: string;
+  length: SummaryLength;
+  model?: string; // per-output override of the backend's default model
+  transcript?: Transcript;
+}
+
+interface SummaryResponse {
+  text: string; // summary Markdown
+  inputTokens?: number; // when the backend reports usage
+  outputTokens?: number;
+}
+
+interface SummarizerBackend {
+  /** Whether summarize() needs a transcript rather than just the item URL */
+  requiresTranscript: boolean;
+  /** Whether responses carry token counts (needed for cost accounting) */
+  reportsUsage: boolean;
+  /** Resolve to the summary, or throw with the backend's error output */
+  summarize(request: SummaryRequest): Promise<SummaryResponse>;
+}
+
+function createSummarizeCliBackend(
+  backend: Extract<BackendConfig, { type: "summarize-cli" }>,
+  model?: string
+): SummarizerBackend {
+  return {
+    requiresTranscript: false,
+    reportsUsage: false,
+    async summarize({ video, prompt, length, model: outputModel, transcript }) {
+      const args = ["--length", length, "--prompt", prompt];
+      if (outputModel ?? model) {
+        args.push("--model", (outputModel ?? model)!);
+      }
+      // A cached transcript lets summarize run without re-fetching the video
+      args.push(transcript?.path ?? video.url);
+
+      const result = await $`${backend.command} ${args}`.quiet();
+      return { text: result.stdout.toString() };
+    },
+  };
+}
+
+// Rough targets matching the summarize CLI's --length presets
+const LENGTH_GUIDANCE: Record<SummaryLength, string> = {
+  short: "about 150 words",
+  medium: "about 400 words",
+  long: "about 800 words",
+  xl: "about 1,500 words",
+  xxl: "about 3,000 words",
+};
+
+function createOpenAIBackend(
+  backend: Extract<BackendConfig, { type: "openai" }>
+): SummarizerBackend {
+  return {
+    requiresTranscript: true,
+    reportsUsage: true,
+    async summarize({ prompt, length, model, transcript }) {
+      if (!transcript) throw new Error("No transcript available");
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (backend.apiKeyEnv) {
+        const apiKey = process.env[backend.apiKeyEnv];
+        if (!apiKey) throw new Error(`API key env var ${backend.apiKeyEnv} is not set`);
+        headers.Authorization = `Bearer ${apiKey}`;
+      }
+
+      const response = await fetch(`${backend.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        headers,
+        signal: AbortSignal.timeout(backend.timeoutSeconds * 1000),
+        body: JSON.stringify({
+          model: model ?? backend.model,
+          temperature: backend.temperature,
+          messages: [
+            {
+              role: "system",
+              content: `You summarize video transcripts as Markdown. Aim for ${LENGTH_GUIDANCE[length]}.`,
+            },
+            { role: "user", content: `${prompt}\n\nTranscript:\n${transcript.text}` },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} from ${backend.baseUrl}: ${await response.text()}`);
+      }
+
+      const parsed = ChatCompletionSchema.safeParse(await response.json().catch(() => undefined));
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`Unexpected response from ${backend.baseUrl}: ${issue?.path.join(".")} ${issue?.message}`);
+      }
+      const body = parsed.data;
+      const content = body.choices[0]?.message.content;
+      if (!content?.trim()) {
+        throw new Error(`Empty model response from ${backend.baseUrl}`);
+      }
+      return {
+        text: content,
+        inputTokens: body.usage?.prompt_tokens,
+        outputTokens: body.usage?.completion_tokens,
+      };
+    },
+  };
+}
+
+function createSummarizerBackend(config: Config): SummarizerBackend {
+  const { backend } = config.settings;
+  switch (backend.type) {
+    case "summarize-cli":
+      return createSummarizeCliBackend(backend, config.settings.model);
+    case "openai":
+      return createOpenAIBackend(backend);
+  }
+}
+
+// ============================================================================
+// Prompt Templates
+// ============================================================================
+
+const PROMPT_VARIABLES = [
+  "title",
+  "source", // source id
+  "source_name",
+  "url",
+  "upload_date", // YYYY-MM-DD
+  "duration", // HH:MM:SS
+  "description",
+  "tags", // the source's tags, comma-separated
+  "keywords", // the keyword queries in effect for the source
+] as const;
+
+type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+// Any case is matched so that a mis-cased name is reported rather than sent as text
+const PLACEHOLDER_PATTERN = /\{\{|\}\}|\{([A-Za-z_]+)\}/g;
+
+function templatePlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_PATTERN)].flatMap((match) => (match[1] ? [match[1]] : []));
+}
+
+function promptVariables(video: VideoInfo, config: Config, source: Source): Record<PromptVariable, string> {
+  const date = video.uploadDate?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return {
+    title: video.title,
+    source: source.id,
+    source_name: source.name,
+    url: video.url,
+    upload_date: date ? `${date[1]}-${date[2]}-${date[3]}` : "unknown",
+    duration: video.duration !== undefined ? formatTimestamp(video.duration) : "unknown",
+    description: video.description?.trim() || "",
+    tags: source.tags?.join(", ") ?? "",
+    keywords: (source.keywords ?? config.keywords).join(", "),
+  };
+}
+
+/** Replace every {placeholder}; templates were checked against PROMPT_VARIABLES at load */
+function renderPrompt(template: string, variables: Record<PromptVariable, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name?: string) => {
+    if (!name) return match[0]!;
+    return variables[name as PromptVariable] ?? match;
+  });
+}
+
+// ============================================================================
+// Outputs
+// ============================================================================
+
+const DEFAULT_OUTPUT = "summary";
+
+interface OutputSpec {
+  name: string;
+  prompt: string;
+  length: SummaryLength;
+  model?: string;
+}
+
+/**
+ * Configured outputs, or the single "summary" output built from summaryPrompt.
+ * With a source, its summaryPrompt / promptAppend overrides are applied.
+ */
+function resolveOutputs(config: Config, source?: Source): OutputSpec[] {
+  const { outputs, summaryPrompt, summaryLength } = config.settings;
+  const specs: OutputSpec[] = outputs
+    ? outputs.map((output) => ({
+        name: output.name,
+        prompt: output.prompt,
+        length: output.length ?? summaryLength,
+        model: output.model,
+      }))
+    : [{ name: DEFAULT_OUTPUT, prompt: summaryPrompt!, length: summaryLength }];
+
+  if (!source) return specs;
+  return specs.map((spec) => {
+    let prompt = spec.name === DEFAULT_OUTPUT && source.summaryPrompt ? source.summaryPrompt : spec.prompt;
+    if (source.promptAppend) prompt += `\n\n${source.promptAppend}`;
+    return { ...spec, prompt };
+  });
+}
+
+/** Outputs not yet produced for a video (recorded as done, or already on disk) */
+function pendingOutputs(
+  config: Config,
+  source: Source,
+  videoId: string,
+  record: VideoRecord
+): OutputSpec[] {
+  return resolveOutputs(config, source).filter(
+    (output) =>
+      record.outputs?.[output.name]?.status !== "summarized" &&
+      !existsSync(getOutputPath(config, source.id, videoId, output.name))
+  );
+}
+
+/** Split "abc123.quotes.md" into video id and output name */
+function parseOutputFileName(file: string, outputNames: string[]): { videoId: string; output: string } {
+  const base = file.replace(/\.md$/, "");
+  for (const name of outputNames) {
+    if (name !== DEFAULT_OUTPUT && base.endsWith(`.${name}`)) {
+      return { videoId: base.slice(0, -(name.length + 1)), output: name };
+    }
+  }
+  return { videoId: base, output: DEFAULT_OUTPUT };
+}
+
+/** Why an existing output file can't count as this video's summary, if it can't */
+function summaryFileProblem(path: string, videoId: string): string | undefined {
+  const content = readFileSync(path, "utf8");
+  if (!content.trim()) return "empty file";
+  const { data } = parseFrontmatter(content);
+  if (data.video_id && data.video_id !== videoId) return `written for video ${data.video_id}`;
+  if (!summaryBody(content).trim()) return "no summary text";
+  return undefined;
+}
+
+/** Minimal reader for the flat `key: value` frontmatter this tool writes */
+function parseFrontmatter(content: string): { data: Record<string, string>; body: string } {
+  const match = content.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!match) return { data: {}, body: content };
+
+  const data: Record<string, string> = {};
+  for (const line of match[1]!.split("\n")) {
+    const field = line.match(/^([\w-]+):\s?(.*)$/);
+    if (!field) continue;
+    let value = field[2]!;
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1).replace(/\\"/g, '"');
+    }
+    data[field[1]!] = value;
+  }
+  return { data, body: content.slice(match[0].length) };
+}
+
+/** The model an output is actually summarized with, as recorded in fingerprints */
+function effectiveModel(config: Config, output: OutputSpec): string {
+  const { backend } = config.settings;
+  if (backend.type === "openai") return output.model ?? backend.model;
+  return output.model ?? config.settings.model ?? "default";
+}
+
+function outputFingerprint(config: Config, output: OutputSpec): Fingerprint {
+  return {
+    promptHash: createHash("sha256").update(output.prompt).digest("hex").slice(0, 12),
+    model: effectiveModel(config, output),
+    length: output.length,
+    toolVersion: VERSION,
+  };
+}
+
+function sameFingerprint(a: Fingerprint, b: Fingerprint): boolean {
+  return (
+    a.promptHash === b.promptHash &&
+    a.model === b.model &&
+    a.length === b.length &&
+    a.toolVersion === b.toolVersion
+  );
+}
+
+/**
+ * Outputs on disk that were produced with a different prompt, model, length or
+ * tool version than the config would use now. Summaries that predate
+ * fingerprints count as stale, since nothing says what produced them.
+ */
+function staleOutputs(
+  config: Config,
+  source: Source,
+  videoId: string,
+  record: VideoRecord
+): OutputSpec[] {
+  return resolveOutputs(config, source).filter((output) => {
+    const path = getOutputPath(config, source.id, videoId, output.name);
+    if (!existsSync(path)) return false;
+
+    let recorded = record.outputs?.[output.name]?.fingerprint;
+    if (!recorded) {
+      const { data } = parseFrontmatter(readFileSync(path, "utf8"));
+      if (data.prompt_hash && data.model && data.length && data.tool_version) {
+        recorded = {
+          promptHash: data.prompt_hash,
+          model: data.model,
+          length: data.length,
+          toolVersion: data.tool_version,
+        };
+      }
+    }
+    return !recorded || !sameFingerprint(recorded, outputFingerprint(config, output));
+  });
+}
+
+// ============================================================================
+// Summarization
+// ============================================================================
+
+interface SummarizeResult {
+  completed: string[]; // output names written (or found on disk) in this attempt
+  fingerprints: Record<string, Fingerprint>; // for the outputs actually written
+  error?: string;
+  failedOutput?: string;
+  usage: Usage;
+}
+
+/** Produce each of `outputs` for one video, stopping at the first failure */
+async function summarizeVideo(
+  video: VideoInfo,
+  config: Config,
+  source: Source,
+  outputs: OutputSpec[],
+  limiter?: RateLimiter,
+  overwrite = false
+): Promise<SummarizeResult> {
+  const sourceId = source.id;
+  const variables = promptVariables(video, config, source);
+  const completed: string[] = [];
+  const fingerprints: Record<string, Fingerprint> = {};
+  const backend = createSummarizerBackend(config);
+  const startedAt = Date.now();
+  let usage: Usage = { wallMs: 0 };
+  let transcript: Transcript | undefined;
+  let transcriptLoaded = false;
+
+  for (const output of outputs) {
+    const outputFile = getOutputPath(config, sourceId, video.id, output.name);
+    const label = outputs.length > 1 || output.name !== DEFAULT_OUTPUT ? ` [${output.name}]` : "";
+
+    if (existsSync(outputFile) && !overwrite) {
+      const problem = summaryFileProblem(outputFile, video.id);
+      if (!problem) {
+        console.log(`   ⏭️  Already exists${label}: ${video.title.substring(0, 50)}...`);
+        completed.push(output.name);
+        continue;
+      }
+      console.log(`   ⚠️  Replacing ${basename(outputFile)} (${problem})`);
+    }
+
+    console.log(`   📝 Summarizing${label}: ${video.title.substring(0, 55)}...`);
+
+    const prompt = renderPrompt(output.prompt, variables);
+    const fingerprint = outputFingerprint(config, output);
+
+    try {
+      if (!transcriptLoaded) {
+        transcript = await loadTranscript(video, config, sourceId, backend.requiresTranscript);
+        transcriptLoaded = true;
+        if (transcript) usage.transcriptChars = transcript.text.length;
+      }
+
+      await limiter?.acquire();
+      const response = await backend.summarize({
+        video,
+        prompt,
+        length: output.length,
+        model: output.model,
+        transcript,
+      });
+      const summary = response.text;
+      usage = addUsage(usage, callUsage(config, fingerprint.model, response));
+
+      const content = `---
+video_id: ${video.id}
+title: "${video.title.replace(/"/g, '\\"')}"
+url: ${video.url}
+source: ${sourceId}
+output: ${output.name}
+summarized_at: ${new Date().toISOString()}
+prompt_hash: ${fingerprint.promptHash}
+model: ${fingerprint.model}
+length: ${fingerprint.length}
+tool_version: ${fingerprint.toolVersion}
+---
+
+# ${video.title}
+
+**Source:** [Watch Video](${video.url})
+
+---
+
+${summary}
+`;
+
+      await Bun.write(outputFile, content);
+      console.log(`   ✅ Saved`);
+      completed.push(output.name);
+      fingerprints[output.name] = fingerprint;
+    } catch (error: any) {
+      const errorMsg = error.stderr?.toString().trim() || error.message;
+      console.error(`   ❌ Error: ${errorMsg.substring(0, 100)}`);
+      usage.wallMs = Date.now() - startedAt;
+      return { completed, fingerprints, error: errorMsg, failedOutput: output.name, usage };
+    }
+  }
+
+  usage.wallMs = Date.now() - startedAt;
+  return { completed, fingerprints, usage };
+}
+
+// ============================================================================
+// Structured Extraction
+// ============================================================================
+
+type ExtractionConfig = NonNullable<Config["settings"]["extraction"]>;
+
+/** Extraction as an output spec, so model and fingerprint helpers apply */
+function extractionSpec(config: Config, extraction: ExtractionConfig): OutputSpec {
+  return {
+    name: "extraction",
+    prompt: extraction.prompt,
+    length: extraction.length ?? config.settings.summaryLength,
+    model: extraction.model,
+  };
+}
+
+/** Changes when the schema or prompt does, so existing records are re-extracted */
+function extractionHash(extraction: ExtractionConfig): string {
+  return createHash("sha256")
+    .update(JSON.stringify(extraction.schema) + "\n" + extraction.prompt)
+    .digest("hex")
+    .slice(0, 12);
+}
+
+function needsExtraction(config: Config, source: Source, videoId: string, record: VideoRecord): boolean {
+  const { extraction } = config.settings;
+  if (!extraction) return false;
+  return (
+    !existsSync(getExtractionPath(config, source.id, videoId)) ||
+    record.extraction?.schemaHash !== extractionHash(extraction)
+  );
+}
+
+function extractionPrompt(extraction: ExtractionConfig, rendered: string, issues?: string): string {
+  let prompt = `${rendered}
+
+Respond with only a JSON object, without prose or code fences, that matches this JSON Schema:
+${JSON.stringify(extraction.schema, null, 2)}`;
+  if (issues) {
+    prompt += `\n\nYour previous response did not match the schema:\n${issues}\nReturn the corrected JSON object only.`;
+  }
+  return prompt;
+}
+
+/** Models often wrap JSON in fences or a sentence; take the outermost object */
+function parseJsonResponse(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const candidate = fenced ? fenced[1]! : text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+  return JSON.parse(candidate);
+}
+
+interface ExtractResult {
+  error?: string;
+  usage: Usage;
+}
+
+/**
+ * Ask the backend for the configured fields and write `${videoId}.json` once the
+ * answer validates. Mismatches are sent back with the validation issues, up to
+ * `extraction.maxAttempts` calls; backend errors end the attempt immediately.
+ */
+async function extractVideo(
+  video: VideoInfo,
+  config: Config,
+  source: Source,
+  limiter?: RateLimiter
+): Promise<ExtractResult> {
+  const extraction = config.settings.extraction!;
+  const spec = extractionSpec(config, extraction);
+  const model = effectiveModel(config, spec);
+  const validator = z.fromJSONSchema(extraction.schema);
+  const backend = createSummarizerBackend(config);
+  const startedAt = Date.now();
+  let usage: Usage = { wallMs: 0 };
+
+  console.log(`   🧾 Extracting fields: ${video.title.substring(0, 55)}...`);
+
+  try {
+    const transcript = await loadTranscript(video, config, source.id, backend.requiresTranscript);
+    if (transcript) usage.transcriptChars = transcript.text.length;
+    const rendered = renderPrompt(extraction.prompt, promptVariables(video, config, source));
+    let issues: string | undefined;
+
+    for (let attempt = 1; attempt <= extraction.maxAttempts; attempt++) {
+      await limiter?.acquire();
+      const response = await backend.summarize({
+        video,
+        prompt: extractionPrompt(extraction, rendered, issues),
+        length: spec.length,
+        model: spec.model,
+        transcript,
+      });
+      usage = addUsage(usage, callUsage(config, model, response));
+
+      let parsed: unknown;
+      try {
+        parsed = parseJsonResponse(response.text);
+      } catch {
+        issues = "- The response was not valid JSON";
+        console.log(`   🔁 Invalid JSON (attempt ${attempt}/${extraction.maxAttempts})`);
+        continue;
+      }
+
+      const result = validator.safeParse(parsed);
+      if (!result.success) {
+        issues = result.error.issues.map((i) => `- ${i.path.join(".") || "(root)"}: ${i.message}`).join("\n");
+        console.log(`   🔁 Schema mismatch (attempt ${attempt}/${extraction.maxAttempts})`);
+        continue;
+      }
+
+      const record = {
+        video_id: video.id,
+        title: video.title,
+        url: video.url,
+        source: source.id,
+        extracted_at: new Date().toISOString(),
+        schema_hash: extractionHash(extraction),
+        model,
+        data: result.data,
+      };
+      await Bun.write(getExtractionPath(config, source.id, video.id), JSON.stringify(record, null, 2) + "\n");
+      console.log(`   ✅ Saved fields`);
+      return { usage: { ...usage, wallMs: Date.now() - startedAt } };
+    }
+
+    const error = `Extraction did not match the schema after ${extraction.maxAttempts} attempts:\n${issues}`;
+    console.error(`   ❌ ${error.split("\n")[0]}`);
+    return { error, usage: { ...usage, wallMs: Date.now() - startedAt } };
+  } catch (error: any) {
+    const errorMsg: string = error.stderr?.toString().trim() || error.message;
+    console.error(`   ❌ Extraction error: ${errorMsg.substring(0, 100)}`);
+    return { error: errorMsg, usage: { ...usage, wallMs: Date.now() - startedAt } };
+  }
+}
+
+function applyExtractResult(config: Config, record: VideoRecord, result: ExtractResult): void {
+  record.usage = addUsage(record.usage, result.usage);
+  record.extraction = result.error
+    ? { status: "error", error: result.error }
+    : {
+        status: "extracted",
+        processedAt: new Date().toISOString(),
+        schemaHash: extractionHash(config.settings.extraction!),
+      };
+}
+
+// ============================================================================
+// Usage Accounting
+// ============================================================================
+
+/** Tokens and priced cost of one backend call; cost needs a settings.prices entry for the model */
+function callUsage(config: Config, model: string, response: SummaryResponse): Usage {
+  const usage: Usage = { wallMs: 0, inputTokens: response.inputTokens, outputTokens: response.outputTokens };
+  const price = config.settings.prices[model];
+  if (price && (response.inputTokens !== undefined || response.outputTokens !== undefined)) {
+    usage.costUsd =
+      ((response.inputTokens ?? 0) * price.input + (response.outputTokens ?? 0) * price.output) / 1_000_000;
+  }
+  return usage;
+}
+
+/** Sum two usages; a count stays undefined only if neither side has it */
+function addUsage(total: Usage | undefined, add: Usage): Usage {
+  const sum = (a?: number, b?: number) => (a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0));
+  return {
+    wallMs: (total?.wallMs ?? 0) + add.wallMs,
+    transcriptChars: add.transcriptChars ?? total?.transcriptChars,
+    inputTokens: sum(total?.inputTokens, add.inputTokens),
+    outputTokens: sum(total?.outputTokens, add.outputTokens),
+    costUsd: sum(total?.costUsd, add.costUsd),
+  };
+}
+
+function formatUsage(usage: Usage): string {
+  const parts = [`${formatTimestamp(Math.round(usage.wallMs / 1000))} summarizing`];
+  if (usage.inputTokens !== undefined || usage.outputTokens !== undefined) {
+    parts.push(
+      `${(usage.inputTokens ?? 0).toLocaleString()} tokens in / ${(usage.outputTokens ?? 0).toLocaleString()} out`
+    );
+  }
+  if (usage.costUsd !== undefined) parts.push(`est. $${usage.costUsd.toFixed(usage.costUsd < 1 ? 4 : 2)}`);
+  return parts.join(", ");
+}
+
+// ============================================================================
+// Retries
+// ============================================================================
+
+const ERROR_KINDS = ErrorKindSchema.options;
+
+// Permanent failures are marked "skipped" instead of "error" and never retried
+const PERMANENT_ERROR_KINDS: ErrorKind[] = ["unavailable", "transcript-missing"];
+
+// An HTTP status as yt-dlp ("HTTP Error 503"), the openai backend ("HTTP 503 from")
+// and most APIs ("status 503", "status code: 503") report it
+const HTTP_STATUS = String.raw`(?:HTTP(?: Error)?|status(?: code)?:?) `;
+
+// Checked in order: the first kind with a matching pattern wins. YouTube answers
+// throttled clients with 403, so that counts as a rate limit, not a removed video.
+const ERROR_PATTERNS: [ErrorKind, RegExp][] = [
+  [
+    "rate-limit",
+    new RegExp(`${HTTP_STATUS}(?:429|403)\\b|rate.?limit|too many requests|quota exceeded|confirm you.?re not a bot`, "i"),
+  ],
+  [
+    "unavailable",
+    new RegExp(
+      `video unavailable|private video|video is private|been removed|members.only|not available in your country|confirm your age|${HTTP_STATUS}(?:404|410)\\b|account .* terminated`,
+      "i"
+    ),
+  ],
+  [
+    "transcript-missing",
+    /no transcript|transcript (is )?(not available|unavailable|disabled)|subtitles are disabled|no captions|could not (get|fetch|find) (a )?transcript/i,
+  ],
+  [
+    "model-error",
+    new RegExp(
+      `api.?key|overloaded|context (length|window)|internal server error|${HTTP_STATUS}5\\d\\d\\b|model (not found|does not exist|response)|timed? ?out`,
+      "i"
+    ),
+  ],
+];
+
+function classifyError(message: string): ErrorKind {
+  for (const [kind, pattern] of ERROR_PATTERNS) {
+    if (pattern.test(message)) return kind;
+  }
+  return "unknown";
+}
+
+function isRetryableError(kind: ErrorKind): boolean {
+  return !PERMANENT_ERROR_KINDS.includes(kind);
+}
+
+/** Exponential backoff with up to 20% jitter so parallel workers don't retry in lockstep */
+function retryDelay(config: Config, attempt: number): number {
+  const { baseDelayMs, maxDelayMs } = config.settings.retry;
+  const delay = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
+
+interface SummarizeOutcome {
+  success: boolean;
+  completed: string[];
+  fingerprints: Record<string, Fingerprint>;
+  error?: string;
+  errorKind?: ErrorKind;
+  failedOutput?: string;
+  attempts: number;
+  usage: Usage; // all attempts; wall time includes the backoff waits
+}
+
+async function summarizeWithRetry(
+  video: VideoInfo,
+  config: Config,
+  source: Source,
+  outputs: OutputSpec[],
+  limiter?: RateLimiter,
+  overwrite = false
+): Promise<SummarizeOutcome> {
+  const { maxAttempts } = config.settings.retry;
+  const completed: string[] = [];
+  const fingerprints: Record<string, Fingerprint> = {};
+  const startedAt = Date.now();
+  let usage: Usage = { wallMs: 0 };
+  let remaining = outputs;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await summarizeVideo(video, config, source, remaining, limiter, overwrite);
+    completed.push(...result.completed);
+    Object.assign(fingerprints, result.fingerprints);
+    usage = { ...addUsage(usage, result.usage), wallMs: Date.now() - startedAt };
+    remaining = remaining.filter((output) => !result.completed.includes(output.name));
+    if (!result.error) return { success: true, completed, fingerprints, attempts: attempt, usage };
+
+    const errorKind = classifyError(result.error);
+    if (!isRetryableError(errorKind) || attempt >= maxAttempts) {
+      return {
+        success: false,
+        completed,
+        fingerprints,
+        error: result.error,
+        errorKind,
+        failedOutput: result.failedOutput,
+        attempts: attempt,
+        usage,
+      };
+    }
+
+    const delay = retryDelay(config, attempt);
+    console.log(`   🔁 ${errorKind}, retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1}/${maxAttempts})`);
+    await Bun.sleep(delay);
+  }
+}
+
+function applySummarizeOutcome(record: VideoRecord, outcome: SummarizeOutcome): void {
+  const now = new Date().toISOString();
+  record.attempts = (record.attempts ?? 0) + outcome.attempts;
+  record.usage = addUsage(record.usage, outcome.usage);
+  clearLease(record);
+
+  record.outputs ??= {};
+  for (const name of outcome.completed) {
+    const previous = record.outputs[name];
+    const written = name in outcome.fingerprints;
+    record.outputs[name] = {
+      status: "summarized",
+      processedAt: written ? now : (previous?.processedAt ?? now),
+      fingerprint: written ? outcome.fingerprints[name] : previous?.fingerprint,
+    };
+  }
+  if (outcome.failedOutput) {
+    record.outputs[outcome.failedOutput] = { status: "error", error: outcome.error };
+  }
+
+  if (outcome.success) {
+    record.status = "summarized";
+    record.processedAt = now;
+    delete record.error;
+    delete record.errorKind;
+  } else {
+    record.status = isRetryableError(outcome.errorKind!) ? "error" : "skipped";
+    record.error = outcome.error;
+    record.errorKind = outcome.errorKind;
+  }
+}
+
+// ============================================================================
+// Work Queue
+// ============================================================================
+
+interface WorkItem {
+  source: Source;
+  checkpoint: SourceCheckpoint;
+  videoId: string;
+  record: VideoRecord;
+}
+
+interface RateLimiter {
+  /** Resolves when the caller may start its next request */
+  acquire(): Promise<void>;
+}
+
+/**
+ * Spaces request starts evenly so all workers together stay under the limit.
+ * Without a limit, acquire() resolves immediately.
+ */
+function createRateLimiter(requestsPerMinute?: number): RateLimiter {
+  if (!requestsPerMinute) {
+    return { acquire: async () => {} };
+  }
+
+  const interval = 60_000 / requestsPerMinute;
+  let nextSlot = 0;
+
+  return {
+    async acquire() {
+      const now = Date.now();
+      const slot = Math.max(now, nextSlot);
+      nextSlot = slot + interval;
+      if (slot > now) {
+        await Bun.sleep(slot - now);
+      }
+    },
+  };
+}
+
+/** Round-robin merge: [a1, b1, c1, a2, b2, ...] */
+function interleave<T>(lists: T[][]): T[] {
+  const result: T[] = [];
+  const longest = Math.max(0, ...lists.map((list) => list.length));
+  for (let i = 0; i < longest; i++) {
+    for (const list of lists) {
+      if (i < list.length) result.push(list[i]!);
+    }
+  }
+  return result;
+}
+
+// Set on SIGTERM/SIGINT during `watch`: workers finish their current item and take no more
+let shutdownRequested = false;
+let onShutdownSignal: ((exitCode: number) => void) | undefined;
+
+/** `stop` is checked before each item is taken; items already started always finish */
+async function runWorkerPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  stop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, async () => {
+    while (next < items.length && !shutdownRequested && !stop()) {
+      await worker(items[next++]!);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Saves are chained per source so workers finishing at the same moment don't
+ * interleave writes to the same checkpoint file.
+ */
+function createCheckpointSaver(config: Config): (checkpoint: SourceCheckpoint) => Promise<void> {
+  const pending = new Map<string, Promise<void>>();
+
+  return (checkpoint) => {
+    const previous = pending.get(checkpoint.sourceId) ?? Promise.resolve();
+    const next = previous.then(() => saveSourceCheckpoint(config, checkpoint));
+    pending.set(checkpoint.sourceId, next);
+    return next;
+  };
+}
+
+// ============================================================================
+// Summary Collection
+// ============================================================================
+
+interface SummaryEntry {
+  source: string; // source id (directory name)
+  videoId: string;
+  title: string;
+  url?: string;
+  uploadDate?: string; // YYYYMMDD, from the checkpoint
+  /** Selected outputs that exist for the video, in selection order */
+  outputs: { name: string; path: string; content: string }[];
+}
+
+interface SummaryFilters {
+  source?: string;
+  tag?: string;
+  since?: string; // YYYY-MM-DD, inclusive
+  until?: string;
+}
+
+function sourceDisplayName(config: Config, sourceId: string): string {
+  return config.sources.find((s) => s.id === sourceId)?.name || sourceId;
+}
+
+/** Summary text without frontmatter and the "# Title / Source link / ---" header */
+function summaryBody(content: string): string {
+  return parseFrontmatter(content).body.replace(/^[\s\S]*?\n---\n/, "");
+}
+
+/** Newest first; videos without a known date go last */
+function compareByUploadDate(a: SummaryEntry, b: SummaryEntry): number {
+  if (a.uploadDate !== b.uploadDate) {
+    if (!a.uploadDate) return 1;
+    if (!b.uploadDate) return -1;
+    return b.uploadDate.localeCompare(a.uploadDate);
+  }
+  return a.source.localeCompare(b.source) || a.videoId.localeCompare(b.videoId);
+}
+
+/**
+ * Read every video of the enabled, configured sources that has at least one of
+ * the `selected` outputs, newest first. Folders of sources that were removed from
+ * the config are ignored. With a date bound, videos of unknown date are left out.
+ */
+async function collectSummaries(
+  config: Config,
+  selected: string[],
+  filters: SummaryFilters = {}
+): Promise<SummaryEntry[]> {
+  const outputNames = resolveOutputs(config).map((o) => o.name);
+  const since = filters.since?.replace(/-/g, "");
+  const until = filters.until?.replace(/-/g, "");
+  const entries: SummaryEntry[] = [];
+
+  let sources = config.sources.filter((s) => s.enabled !== false);
+  if (filters.source) {
+    sources = sources.filter((s) => s.id === filters.source || s.id.includes(filters.source!));
+  }
+  if (filters.tag) {
+    sources = sources.filter((s) => s.tags?.includes(filters.tag!));
+  }
+
+  for (const source of sources) {
+    const sourceDir = getSourceDir(config, source.id);
+    if (!existsSync(sourceDir)) continue;
+
+    const checkpoint = existsSync(getSourceCheckpointPath(config, source.id))
+      ? await loadSourceCheckpoint(config, source)
+      : undefined;
+    const byVideo = new Map<string, Map<string, string>>();
+
+    for (const file of readdirSync(sourceDir)) {
+      if (!file.endsWith(".md") || file.startsWith(".")) continue;
+      const { videoId, output } = parseOutputFileName(file, outputNames);
+      if (!selected.includes(output)) continue;
+      if (!byVideo.has(videoId)) byVideo.set(videoId, new Map());
+      byVideo.get(videoId)!.set(output, join(sourceDir, file));
+    }
+
+    for (const [videoId, files] of byVideo) {
+      const uploadDate = checkpoint?.videos[videoId]?.uploadDate;
+      if ((since || until) && !uploadDate) continue;
+      if (since && uploadDate! < since) continue;
+      if (until && uploadDate! > until) continue;
+
+      const outputs = await Promise.all(
+        selected
+          .filter((name) => files.has(name))
+          .map(async (name) => {
+            const path = files.get(name)!;
+            return { name, path, content: await Bun.file(path).text() };
+          })
+      );
+
+      const first = outputs[0]!.content;
+      const { data } = parseFrontmatter(first);
+      const titleMatch = first.match(/^# (.+)$/m);
+      entries.push({
+        source: source.id,
+        videoId,
+        title: titleMatch ? titleMatch[1]! : data.title || videoId,
+        url: data.url,
+        uploadDate,
+        outputs,
+      });
+    }
+  }
+
+  return entries.sort(compareByUploadDate);
+}
+
+// ============================================================================
+// HTML Export
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Only links that can't run script: http(s), mailto, relative paths and anchors */
+function safeHref(url: string): string {
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i)?.[1]?.toLowerCase();
+  return !scheme || ["http", "https", "mailto"].includes(scheme) ? url : "#";
+}
+
+function renderInlineMarkdown(text: string): string {
+  // Code spans and link tags are set aside so emphasis markers inside them (e.g.
+  // `_` in a URL) stay literal
+  const held: string[] = [];
+  const hold = (html: string) => {
+    held.push(html);
+    return `\u0000${held.length - 1}\u0000`;
+  };
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code) => hold(`<code>${code}</code>`));
+
+  html = html
+    .replace(
+      /\[([^\]]+)\]\(([^)\s]+)\)/g,
+      (_, label, href) => `${hold(`<a href="${safeHref(href)}">`)}${label}${hold("</a>")}`
+    )
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, "$1<em>$2</em>")
+    .replace(/(^|\W)_([^_\s][^_]*)_(?=\W|$)/g, "$1<em>$2</em>");
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, i) => held[Number(i)]!);
+}
+
+/**
+ * Small Markdown renderer for summary bodies: headings, paragraphs, nested
+ * lists, blockquotes, fenced code, tables, rules and inline formatting. Enough
+ * for LLM output without shipping a parser dependency.
+ */
+function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const out: string[] = [];
+  let paragraph: string[] = [];
+  const listStack: { type: "ul" | "ol"; indent: number }[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      out.push(`<p>${renderInlineMarkdown(paragraph.join(" "))}</p>`);
+      paragraph = [];
+    }
+  };
+  const closeLists = (toIndent = -1) => {
+    while (listStack.length > 0 && listStack[listStack.length - 1]!.indent > toIndent) {
+      out.push(`</li></${listStack.pop()!.type}>`);
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+
+    const fence = line.match(/^\s*```(\w*)/);
+    if (fence) {
+      flushParagraph();
+      closeLists();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```/.test(lines[i]!)) code.push(lines[i]!);
+      out.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      closeLists();
+      const level = heading[1]!.length;
+      out.push(`<h${level}>${renderInlineMarkdown(heading[2]!)}</h${level}>`);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      closeLists();
+      out.push("<hr>");
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      flushParagraph();
+      closeLists();
+      const quote: string[] = [];
+      for (; i < lines.length && /^\s*>/.test(lines[i]!); i++) {
+        quote.push(lines[i]!.replace(/^\s*>\s?/, ""));
+      }
+      i--;
+      out.push(`<blockquote>${markdownToHtml(quote.join("\n"))}</blockquote>`);
+      continue;
+    }
+
+    if (line.includes("|") && /^\s*\|?\s*:?-{3,}/.test(lines[i + 1] ?? "")) {
+      flushParagraph();
+      closeLists();
+      const cells = (row: string) =>
+        row.trim().replace(/^\||\|$/g, "").split("|").map((cell) => renderInlineMarkdown(cell.trim()));
+      const header = cells(line);
+      const rows: string[][] = [];
+      for (i += 2; i < lines.length && lines[i]!.includes("|") && lines[i]!.trim(); i++) {
+        rows.push(cells(lines[i]!));
+      }
+      i--;
+      out.push(
+        `<table><thead><tr>${header.map((c) => `<th>${c}</th>`).join("")}</tr></thead><tbody>` +
+          rows.map((r) => `<tr>${r.map((c) => `<td>${c}</td>`).join("")}</tr>`).join("") +
+          `</tbody></table>`
+      );
+      continue;
+    }
+
+    const item = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+    if (item) {
+      flushParagraph();
+      const indent = item[1]!.length;
+      const type = /\d/.test(item[2]!) ? "ol" : "ul";
+      const top = listStack[listStack.length - 1];
+
+      if (!top || indent > top.indent) {
+        out.push(`<${type}><li>`);
+        listStack.push({ type, indent });
+      } else {
+        closeLists(indent);
+        const current = listStack[listStack.length - 1];
+        if (current && current.indent === indent && current.type === type) {
+          out.push("</li><li>");
+        } else {
+          if (current && current.indent === indent) out.push(`</li></${listStack.pop()!.type}>`);
+          out.push(`<${type}><li>`);
+          listStack.push({ type, indent });
+        }
+      }
+      out.push(renderInlineMarkdown(item[3]!));
+      continue;
+    }
+
+    // Continuation of a list item, or paragraph text
+    if (listStack.length > 0 && /^\s+/.test(line)) {
+      out.push(" " + renderInlineMarkdown(line.trim()));
+      continue;
+    }
+    closeLists();
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  closeLists();
+  return out.join("\n");
+}
+
+/** Plain single-line text for search indexes and snippets */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^\s*(#+|>|[-*+]|\d+[.)])\s+/gm, "")
+    .replace(/[*_`|]+|-{3,}/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const SITE_CSS = `
+:root { --fg: #1d1d1f; --muted: #6e6e73; --accent: #0a58ca; --border: #e3e3e8; --bg: #fff; }
+* { box-sizing: border-box; }
+body { font: 16px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: var(--fg); background: var(--bg); margin: 0; }
+header { border-bottom: 1px solid var(--border); padding: 0.75rem 1.5rem; display: flex; gap: 1.25rem; align-items: baseline; flex-wrap: wrap; }
+header .project { font-weight: 600; color: var(--fg); }
+main { max-width: 52rem; margin: 0 auto; padding: 1.5rem; }
+a { color: var(--accent); text-decoration: none; }
+a:hover { text-decoration: underline; }
+.meta { color: var(--muted); font-size: 0.9rem; }
+.tag { display: inline-block; background: #f0f0f5; border-radius: 999px; padding: 0 0.6rem; margin: 0 0.25rem 0.25rem 0; font-size: 0.85rem; }
+ul.videos { list-style: none; padding: 0; }
+ul.videos li { padding: 0.5rem 0; border-bottom: 1px solid var(--border); }
+input[type=search] { width: 100%; font-size: 1.1rem; padding: 0.6rem 0.8rem; border: 1px solid var(--border); border-radius: 8px; }
+#results .snippet { color: var(--muted); font-size: 0.9rem; }
+mark { background: #fff3b0; }
+pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; border-radius: 6px; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid var(--border); padding: 0.3rem 0.6rem; text-align: left; }
+blockquote { border-left: 3px solid var(--border); margin: 0; padding-left: 1rem; color: var(--muted); }
+`;
+
+// Runs in the browser; SEARCH_INDEX comes from search-index.js (a script, so it loads from file://)
+const SITE_SEARCH_JS = `
+(function () {
+  var input = document.getElementById("query");
+  var results = document.getElementById("results");
+  if (!input || !results || !window.SEARCH_INDEX) return;
+
+  function escape(s) {
+    return s.replace(/[&<>"]/g, function (c) { return { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[c]; });
+  }
+  // Match on the raw text and escape each piece, so a term can't match inside an entity like &amp;
+  function highlight(s, re) {
+    return s.split(re).map(function (part, i) { return i % 2 ? "<mark>" + escape(part) + "</mark>" : escape(part); }).join("");
+  }
+  function escapeRe(s) { return s.replace(/[.*+?^\${}()|[\\]\\\\]/g, "\\\\$&"); }
+
+  function search(query) {
+    var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+    if (!terms.length) { results.innerHTML = ""; return; }
+    var hits = [];
+    window.SEARCH_INDEX.forEach(function (doc) {
+      var title = doc.t.toLowerCase(), text = doc.x.toLowerCase(), score = 0;
+      for (var i = 0; i < terms.length; i++) {
+        var inTitle = title.split(terms[i]).length - 1, inText = text.split(terms[i]).length - 1;
+        if (!inTitle && !inText && doc.g.join(" ").toLowerCase().indexOf(terms[i]) < 0) return;
+        score += inTitle * 5 + Math.min(inText, 20);
+      }
+      hits.push({ doc: doc, score: score });
+    });
+    hits.sort(function (a, b) { return b.score - a.score; });
+
+    var re = new RegExp("(" + terms.map(escapeRe).join("|") + ")", "gi");
+    results.innerHTML = "<p class=meta>" + hits.length + " results</p>" + hits.slice(0, 50).map(function (h) {
+      var text = h.doc.x, at = Math.max(0, text.toLowerCase().indexOf(terms[0]) - 80);
+      var snippet = (at > 0 ? "…" : "") + text.slice(at, at + 240) + "…";
+      return "<li><a href='" + h.doc.u + "'>" + highlight(h.doc.t, re) + "</a>" +
+        " <span class=meta>" + escape(h.doc.s) + "</span>" +
+        "<div class=snippet>" + highlight(snippet, re) + "</div></li>";
+    }).join("");
+  }
+
+  var initial = new URLSearchParams(location.search).get("q");
+  if (initial) { input.value = initial; search(initial); }
+  input.addEventListener("input", function () { search(input.value); });
+})();
+`;
+
+function siteFileName(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+function sitePage(config: Config, title: string, body: string, root: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)} · ${escapeHtml(config.name)}</title>
+<link rel="stylesheet" href="${root}style.css">
+</head>
+<body>
+<header>
+<a class="project" href="${root}index.html">${escapeHtml(config.name)}</a>
+<a href="${root}index.html#sources">Sources</a>
+<a href="${root}index.html#tags">Tags</a>
+<a href="${root}index.html#search">Search</a>
+</header>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write a self-contained static site: index with search, one page per source,
+ * per tag and per video. Links are relative and the search index is a plain
+ * script, so it works when opened from file://.
+ */
+async function writeHtmlSite(config: Config, entries: SummaryEntry[], siteDir: string): Promise<void> {
+  for (const dir of ["sources", "tags", "videos"]) {
+    mkdirSync(join(siteDir, dir), { recursive: true });
+  }
+
+  const tagsFor = (sourceId: string) => config.sources.find((s) => s.id === sourceId)?.tags ?? [];
+  const videoHref = (entry: SummaryEntry, root: string) =>
+    `${root}videos/${siteFileName(entry.source)}--${siteFileName(entry.videoId)}.html`;
+  const tagLinks = (tags: string[], root: string) =>
+    tags.map((t) => `<a class="tag" href="${root}tags/${siteFileName(t)}.html">${escapeHtml(t)}</a>`).join("");
+  const videoList = (items: SummaryEntry[], root: string) =>
+    `<ul class="videos">${items
+      .map(
+        (e) =>
+          `<li><a href="${videoHref(e, root)}">${escapeHtml(e.title)}</a> <span class="meta">${escapeHtml(sourceDisplayName(config, e.source))}</span></li>`
+      )
+      .join("\n")}</ul>`;
+
+  const bySource = new Map<string, SummaryEntry[]>();
+  const byTag = new Map<string, SummaryEntry[]>();
+  for (const entry of entries) {
+    if (!bySource.has(entry.source)) bySource.set(entry.source, []);
+    bySource.get(entry.source)!.push(entry);
+    for (const tag of tagsFor(entry.source)) {
+      if (!byTag.has(tag)) byTag.set(tag, []);
+      byTag.get(tag)!.push(entry);
+    }
+  }
+
+  const writes: Promise<number>[] = [];
+  const searchIndex: { u: string; t: string; s: string; g: string[]; x: string }[] = [];
+
+  for (const entry of entries) {
+    const sections = entry.outputs
+      .map((output, i) => {
+        const heading = entry.outputs.length > 1 || i > 0 ? `<h2>${escapeHtml(output.name)}</h2>\n` : "";
+        return heading + markdownToHtml(summaryBody(output.content));
+      })
+      .join("\n");
+    const body = `<h1>${escapeHtml(entry.title)}</h1>
+<p class="meta"><a href="../sources/${siteFileName(entry.source)}.html">${escapeHtml(sourceDisplayName(config, entry.source))}</a>${
+      entry.url ? ` · <a href="${safeHref(entry.url)}">Watch video</a>` : ""
+    }</p>
+<p>${tagLinks(tagsFor(entry.source), "../")}</p>
+${sections}`;
+    writes.push(Bun.write(videoHref(entry, siteDir + "/"), sitePage(config, entry.title, body, "../")));
+
+    searchIndex.push({
+      u: videoHref(entry, ""),
+      t: entry.title,
+      s: sourceDisplayName(config, entry.source),
+      g: tagsFor(entry.source),
+      x: markdownToText(entry.outputs.map((o) => summaryBody(o.content)).join("\n")),
+    });
+  }
+
+  for (const [sourceId, items] of bySource) {
+    const name = sourceDisplayName(config, sourceId);
+    const body = `<h1>${escapeHtml(name)}</h1>\n<p>${tagLinks(tagsFor(sourceId), "../")}</p>\n<p class="meta">${items.length} videos</p>\n${videoList(items, "../")}`;
+    writes.push(Bun.write(join(siteDir, "sources", `${siteFileName(sourceId)}.html`), sitePage(config, name, body, "../")));
+  }
+
+  for (const [tag, items] of byTag) {
+    const body = `<h1>Tag: ${escapeHtml(tag)}</h1>\n<p class="meta">${items.length} videos</p>\n${videoList(items, "../")}`;
+    writes.push(Bun.write(join(siteDir, "tags", `${siteFileName(tag)}.html`), sitePage(config, tag, body, "../")));
+  }
+
+  const sourceLinks = [...bySource]
+    .map(
+      ([id, items]) =>
+        `<li><a href="sources/${siteFileName(id)}.html">${escapeHtml(sourceDisplayName(config, id))}</a> <span class="meta">${items.length} videos</span></li>`
+    )
+    .join("\n");
+  const index = `<h1>${escapeHtml(config.name)}</h1>
+${config.description ? `<p>${escapeHtml(config.description)}</p>` : ""}
+<p class="meta">${entries.length} summarized videos · generated ${new Date().toISOString()}</p>
+<h2 id="search">Search</h2>
+<input type="search" id="query" placeholder="Search summaries…" autofocus>
+<ul class="videos" id="results"></ul>
+<h2 id="sources">Sources</h2>
+<ul class="videos">${sourceLinks}</ul>
+<h2 id="tags">Tags</h2>
+<p>${tagLinks([...byTag.keys()].sort(), "")}</p>
+<script src="search-index.js"></script>
+<script src="search.js"></script>`;
+
+  writes.push(
+    Bun.write(join(siteDir, "index.html"), sitePage(config, "Summaries", index, "")),
+    Bun.write(join(siteDir, "style.css"), SITE_CSS.trimStart()),
+    Bun.write(join(siteDir, "search.js"), SITE_SEARCH_JS.trimStart()),
+    Bun.write(join(siteDir, "search-index.js"), `window.SEARCH_INDEX = ${JSON.stringify(searchIndex)};\n`)
+  );
+  await Promise.all(writes);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const EXPORT_FORMATS = ["jsonl", "json", "csv"] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const VIDEO_STATUSES = VideoRecordSchema.shape.status.options;
+
+interface ExportRecord {
+  source: string;
+  sourceName: string;
+  tags: string[];
+  videoId: string;
+  output: string;
+  title: string;
+  url: string;
+  uploadDate: string | null; // YYYY-MM-DD
+  duration: number | null; // seconds
+  status: VideoRecord["status"];
+  processedAt: string | null;
+  error: string | null;
+  errorKind: ErrorKind | null;
+  frontmatter: Record<string, string>;
+  summary: string | null; // body without frontmatter and title header; null when not written
+}
+
+/** One record per video and output; videos with none of the outputs written get one record with a null summary */
+async function buildExportRecords(
+  config: Config,
+  source: Source,
+  checkpoint: SourceCheckpoint,
+  outputs: string[],
+  statuses?: string[]
+): Promise<ExportRecord[]> {
+  const records: ExportRecord[] = [];
+
+  for (const [videoId, record] of Object.entries(checkpoint.videos)) {
+    if (statuses && !statuses.includes(record.status)) continue;
+
+    const date = record.uploadDate?.match(/^(\d{4})(\d{2})(\d{2})$/);
+    const base = {
+      source: source.id,
+      sourceName: source.name,
+      tags: source.tags ?? [],
+      videoId,
+      title: record.title,
+      url: record.url,
+      uploadDate: date ? `${date[1]}-${date[2]}-${date[3]}` : null,
+      duration: record.duration ?? null,
+      status: record.status,
+    };
+
+    let written = 0;
+    for (const output of outputs) {
+      const file = Bun.file(getOutputPath(config, source.id, videoId, output));
+      if (!(await file.exists())) continue;
+
+      const content = await file.text();
+      const entry = record.outputs?.[output];
+      written++;
+      records.push({
+        ...base,
+        output,
+        processedAt: entry?.processedAt ?? record.processedAt ?? null,
+        error: entry?.error ?? null,
+        errorKind: entry?.error ? (record.errorKind ?? null) : null,
+        frontmatter: parseFrontmatter(content).data,
+        summary: summaryBody(content).trim(),
+      });
+    }
+
+    if (written === 0) {
+      records.push({
+        ...base,
+        output: outputs[0]!,
+        processedAt: record.processedAt ?? null,
+        error: record.error ?? null,
+        errorKind: record.errorKind ?? null,
+        frontmatter: {},
+        summary: null,
+      });
+    }
+  }
+
+  return records.sort(
+    (a, b) => a.videoId.localeCompare(b.videoId) || outputs.indexOf(a.output) - outputs.indexOf(b.output)
+  );
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = Array.isArray(value) ? value.join(";") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Frontmatter keys become columns, except those already covered by a record field */
+function recordsToCsv(records: ExportRecord[]): string {
+  const fields = ["source", "sourceName", "tags", "videoId", "output", "title", "url", "uploadDate", "duration",
+    "status", "processedAt", "error", "errorKind"] as const;
+  const covered = new Set(["video_id", "title", "url", "source", "output"]);
+  const frontmatterKeys = [...new Set(records.flatMap((r) => Object.keys(r.frontmatter)))].filter(
+    (key) => !covered.has(key)
+  );
+
+  const header = [...fields, ...frontmatterKeys, "summary"];
+  const rows = records.map((r) =>
+    [...fields.map((f) => r[f]), ...frontmatterKeys.map((k) => r.frontmatter[k]), r.summary].map(csvField).join(",")
+  );
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
+
+function formatExport(records: ExportRecord[], format: ExportFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(records, null, 2) + "\n";
+    case "csv":
+      return recordsToCsv(records);
+    case "jsonl":
+      return records.map((r) => JSON.stringify(r) + "\n").join("");
+  }
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+const SEARCH_INDEX_VERSION = 1;
+const TITLE_WEIGHT = 3; // a title word counts as this many body occurrences
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Derived data only: a missing, outdated or unreadable index is rebuilt
+const SearchIndexSchema = z.object({
+  version: z.literal(SEARCH_INDEX_VERSION),
+  docs: z.record(
+    z.string(), // "<source>/<file>"
+    z.object({
+      source: z.string(),
+      videoId: z.string(),
+      output: z.string(),
+      title: z.string(),
+      url: z.string().optional(),
+      mtimeMs: z.number(),
+      size: z.number(),
+      length: z.number(), // weighted token count
+      terms: z.record(z.string(), z.number()), // term -> weighted frequency
+    })
+  ),
+});
+
+type SearchIndex = z.infer<typeof SearchIndexSchema>;
+type SearchDoc = SearchIndex["docs"][string];
+
+function getSearchIndexPath(config: Config): string {
+  return join(getOutputDir(config), ".search-index.json");
+}
+
+/** Lower-cased words; keeps "c++", "c#" and "node.js" whole */
+function searchTokens(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:[.+#]+[\p{L}\p{N}]+|[+#]+)*/gu) ?? [];
+}
+
+function indexSummary(
+  sourceId: string,
+  file: string,
+  content: string,
+  outputNames: string[]
+): Omit<SearchDoc, "mtimeMs" | "size"> {
+  const { data } = parseFrontmatter(content);
+  const { videoId, output } = parseOutputFileName(file, outputNames);
+  const title = content.match(/^# (.+)$/m)?.[1] ?? data.title ?? videoId;
+  const terms: Record<string, number> = {};
+  let length = 0;
+
+  for (const token of searchTokens(summaryBody(content))) {
+    terms[token] = (terms[token] ?? 0) + 1;
+    length++;
+  }
+  for (const token of searchTokens(title)) {
+    terms[token] = (terms[token] ?? 0) + TITLE_WEIGHT;
+    length += TITLE_WEIGHT;
+  }
+
+  return { source: sourceId, videoId, output, title, url: data.url, length, terms };
+}
+
+/**
+ * Bring the index in line with the summaries on disk: files whose mtime or size
+ * changed are re-read, deleted ones and those of sources no longer enabled in the
+ * config are dropped. Returns how many documents were (re)indexed.
+ */
+async function updateSearchIndex(
+  config: Config
+): Promise<{ index: SearchIndex; indexed: number; removed: number }> {
+  const path = getSearchIndexPath(config);
+  let index: SearchIndex = { version: SEARCH_INDEX_VERSION, docs: {} };
+  if (existsSync(path)) {
+    try {
+      const parsed = SearchIndexSchema.safeParse(JSON.parse(readFileSync(path, "utf-8")));
+      if (parsed.success) index = parsed.data;
+    } catch {
+      // Corrupt index: rebuild from scratch
+    }
+  }
+
+  const outputNames = resolveOutputs(config).map((o) => o.name);
+  const seen = new Set<string>();
+  let indexed = 0;
+
+  for (const source of config.sources.filter((s) => s.enabled !== false)) {
+    const sourceDir = getSourceDir(config, source.id);
+    if (!existsSync(sourceDir)) continue;
+
+    for (const file of readdirSync(sourceDir)) {
+      if (!file.endsWith(".md") || file.startsWith(".")) continue;
+      const key = `${source.id}/${file}`;
+      const stat = statSync(join(sourceDir, file));
+      seen.add(key);
+
+      const existing = index.docs[key];
+      if (existing && existing.mtimeMs === stat.mtimeMs && existing.size === stat.size) continue;
+
+      const content = await Bun.file(join(sourceDir, file)).text();
+      index.docs[key] = {
+        ...indexSummary(source.id, file, content, outputNames),
+        mtimeMs: stat.mtimeMs,
+        size: stat.size,
+      };
+      indexed++;
+    }
+  }
+
+  let removed = 0;
+  for (const key of Object.keys(index.docs)) {
+    if (!seen.has(key)) {
+      delete index.docs[key];
+      removed++;
+    }
+  }
+
+  if (indexed > 0 || removed > 0) {
+    mkdirSync(getOutputDir(config), { recursive: true });
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await Bun.write(tmpPath, JSON.stringify(index));
+    renameSync(tmpPath, path);
+  }
+  return { index, indexed, removed };
+}
+
+interface SearchHit {
+  key: string;
+  doc: SearchDoc;
+  score: number;
+  matched: string[];
+}
+
+/** Okapi BM25 over the documents that pass `include`; any query term may match */
+function rankSearch(index: SearchIndex, terms: string[], include: (doc: SearchDoc) => boolean): SearchHit[] {
+  const docs = Object.entries(index.docs).filter(([, doc]) => include(doc));
+  if (docs.length === 0) return [];
+
+  const avgLength = docs.reduce((sum, [, doc]) => sum + doc.length, 0) / docs.length;
+  const idf = new Map(
+    terms.map((term) => {
+      const df = docs.filter(([, doc]) => doc.terms[term]).length;
+      return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+    })
+  );
+
+  const hits: SearchHit[] = [];
+  for (const [key, doc] of docs) {
+    let score = 0;
+    const matched: string[] = [];
+    for (const term of terms) {
+      const tf = doc.terms[term];
+      if (!tf) continue;
+      matched.push(term);
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / (avgLength || 1));
+      score += idf.get(term)! * ((tf * (BM25_K1 + 1)) / (tf + norm));
+    }
+    if (matched.length > 0) hits.push({ key, doc, score, matched });
+  }
+
+  return hits.sort((a, b) => b.score - a.score || a.key.localeCompare(b.key));
+}
+
+/**
+ * The ~240 character window of `text` that covers the most distinct query terms,
+ * with the [start, end) offsets of each term occurrence inside it.
+ */
+function searchSnippet(
+  text: string,
+  terms: string[],
+  width = 240
+): { text: string; highlights: [number, number][] } {
+  const flat = markdownToText(text);
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`,
+    "giu"
+  );
+  const matches = [...flat.matchAll(pattern)].map((m) => ({ index: m.index!, term: m[0].toLowerCase() }));
+
+  let start = 0;
+  let best = -1;
+  for (const match of matches) {
+    const from = Math.max(0, match.index - 60);
+    const covered = new Set(matches.filter((m) => m.index >= from && m.index < from + width).map((m) => m.term)).size;
+    if (covered > best) {
+      best = covered;
+      start = from;
+    }
+  }
+
+  // Widen to word boundaries
+  if (start > 0) start = flat.lastIndexOf(" ", start) + 1;
+  let end = Math.min(flat.length, start + width);
+  if (end < flat.length) end = flat.indexOf(" ", end) === -1 ? flat.length : flat.indexOf(" ", end);
+
+  const prefix = start > 0 ? "…" : "";
+  const snippet = prefix + flat.slice(start, end) + (end < flat.length ? "…" : "");
+  const highlights = matches
+    .filter((m) => m.index >= start && m.index < end)
+    .map((m): [number, number] => {
+      const at = m.index - start + prefix.length;
+      return [at, at + m.term.length];
+    });
+  return { text: snippet, highlights };
+}
+
+function highlightSnippet(snippet: { text: string; highlights: [number, number][] }): string {
+  // Bold in a terminal, **markdown** when piped
+  const [open, close] = process.stdout.isTTY ? ["\x1b[1;33m", "\x1b[0m"] : ["**", "**"];
+  let result = "";
+  let last = 0;
+  for (const [from, to] of snippet.highlights) {
+    result += snippet.text.slice(last, from) + open + snippet.text.slice(from, to) + close;
+    last = to;
+  }
+  return result + snippet.text.slice(last);
+}
+
+// ============================================================================
+// Digest
+// ============================================================================
+
+// Question words that would otherwise pull in every summary
+const DIGEST_STOPWORDS = new Set(
+  ("a an and are as at be by can do does for from how in is it of on or should the their there these " +
+    "they this to was what when where which who why will with about did vs versus")
+    .split(" ")
+);
+
+interface DigestSource {
+  ref: number; // citation number, [ref] in the report
+  title: string;
+  url: string;
+  sourceName: string;
+  body: string;
+}
+
+/** Greedily pack text blocks into chunks of at most `maxChars` (a longer single block is truncated) */
+function packChunks(blocks: string[], maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (let block of blocks) {
+    if (block.length > maxChars) block = block.slice(0, maxChars - 20) + "\n[…truncated]\n";
+    if (current && current.length + block.length + 2 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current += (current ? "\n\n" : "") + block;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function digestMapPrompt(question: string): string {
+  return `Research question: ${question}
+
+The input is a set of video summaries. Each starts with its citation number in brackets, like [3].
+Extract every finding, claim, recommendation or disagreement relevant to the question, as Markdown bullet points.
+End each point with the citation number(s) it comes from, e.g. "... [3][7]". Skip summaries with nothing relevant.`;
+}
+
+function digestReducePrompt(question: string): string {
+  return `Research question: ${question}
+
+The input is research notes whose points end with citation numbers like [3].
+Merge them into one deduplicated list of Markdown bullet points, keeping every citation number.`;
+}
+
+function digestReportPrompt(question: string, input: "summaries" | "notes"): string {
+  const material =
+    input === "summaries"
+      ? "a set of video summaries, each starting with its citation number in brackets, like [3]"
+      : "research notes whose points end with citation numbers like [3]";
+  return `Write a research report in Markdown answering: ${question}
+
+The input is ${material}.
+Start with a short overview, then a section per main theme, then points of disagreement and open questions.
+Cite the supporting videos after each claim with the same bracketed numbers, e.g. [2][5].
+Only use citation numbers that appear in the input, and do not add a list of sources.`;
+}
+
+/** One summarizer call over `material`, retried like video summaries */
+async function runDigestStep(
+  config: Config,
+  backend: SummarizerBackend,
+  question: string,
+  prompt: string,
+  material: string,
+  length: SummaryLength
+): Promise<string> {
+  const { maxAttempts } = config.settings.retry;
+  const workDir = mkdtempSync(join(tmpdir(), "bulk-summarize-digest-"));
+  const path = join(workDir, "input.md");
+  writeFileSync(path, material);
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await backend.summarize({
+          video: { id: "digest", title: question, url: path },
+          prompt,
+          length,
+          transcript: { text: material, path },
+        });
+        return response.text;
+      } catch (error: any) {
+        const errorMsg: string = error.stderr?.toString().trim() || error.message;
+        const errorKind = classifyError(errorMsg);
+        if (!isRetryableError(errorKind) || attempt >= maxAttempts) throw new Error(errorMsg);
+
+        const delay = retryDelay(config, attempt);
+        console.log(`   🔁 ${errorKind}, retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1}/${maxAttempts})`);
+        await Bun.sleep(delay);
+      }
+    }
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Map-reduce the sources into a report: if they don't fit one chunk, each chunk
+ * is condensed to cited notes, notes are merged chunk-wise until they fit, and
+ * the report is written from the final notes.
+ */
+async function synthesizeDigest(config: Config, question: string, sources: DigestSource[]): Promise<string> {
+  const backend = createSummarizerBackend(config);
+  const maxChars = config.settings.digestChunkChars;
+  const blocks = sources.map((s) => `[${s.ref}] ${s.title} (${s.sourceName})\n${s.body.trim()}`);
+
+  let chunks = packChunks(blocks, maxChars);
+  if (chunks.length === 1) {
+    console.log(`✍️  Writing report from ${sources.length} summaries...`);
+    return runDigestStep(
+      config,
+      backend,
+      question,
+      digestReportPrompt(question, "summaries"),
+      chunks[0]!,
+      config.settings.summaryLength
+    );
+  }
+
+  let notes: string[] = [];
+  for (const [i, chunk] of chunks.entries()) {
+    console.log(`🗺️  Extracting notes from chunk ${i + 1}/${chunks.length}...`);
+    notes.push(await runDigestStep(config, backend, question, digestMapPrompt(question), chunk, "medium"));
+  }
+
+  // Merge until the notes fit one chunk; give up on a round that doesn't shrink them
+  while ((chunks = packChunks(notes, maxChars)).length > 1) {
+    const before = notes.join("\n\n").length;
+    const merged: string[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      console.log(`🧩 Merging notes ${i + 1}/${chunks.length}...`);
+      merged.push(await runDigestStep(config, backend, question, digestReducePrompt(question), chunk, "medium"));
+    }
+    notes = merged;
+    if (notes.join("\n\n").length >= before) {
+      throw new Error(
+        `Notes no longer shrink but still exceed settings.digestChunkChars (${maxChars}); raise it or lower --limit`
+      );
+    }
+  }
+
+  console.log(`✍️  Writing report...`);
+  return runDigestStep(
+    config,
+    backend,
+    question,
+    digestReportPrompt(question, "notes"),
+    chunks[0]!,
+    config.settings.summaryLength
+  );
+}
+
+// ============================================================================
+// Watch
+// ============================================================================
+
+/** Seconds between scans of a source under `watch` */
+function watchInterval(config: Config, source: Source): number {
+  return source.watchInterval ?? config.settings.watch.interval;
+}
+
+/** When the source is next due, from its last scan (so restarts keep the schedule) */
+async function nextScanAt(config: Config, source: Source): Promise<number> {
+  if (!existsSync(getSourceCheckpointPath(config, source.id))) return 0;
+  const checkpoint = await loadSourceCheckpoint(config, source);
+  if (!checkpoint.lastScanned) return 0;
+  return new Date(checkpoint.lastScanned).getTime() + watchInterval(config, source) * 1000;
+}
+
+interface WatchNotification {
+  event: "watch.cycle";
+  project: string;
+  startedAt: string;
+  finishedAt: string;
+  scannedSources: string[];
+  summaries: {
+    source: string;
+    sourceName: string;
+    videoId: string;
+    title: string;
+    url: string;
+    outputs: string[]; // paths of the files written
+  }[];
+  failed: { source: string; videoId: string; title: string; url: string; error?: string; errorKind?: ErrorKind }[];
+  combined?: string;
+}
+
+function buildWatchNotification(
+  config: Config,
+  startedAt: Date,
+  scannedSources: string[],
+  processed: WorkItem[],
+  combined?: string
+): WatchNotification {
+  const summaries: WatchNotification["summaries"] = [];
+  const failed: WatchNotification["failed"] = [];
+
+  for (const { source, videoId, record } of processed) {
+    if (record.status === "summarized") {
+      summaries.push({
+        source: source.id,
+        sourceName: source.name,
+        videoId,
+        title: record.title,
+        url: record.url,
+        outputs: Object.keys(record.outputs ?? {})
+          .filter((name) => record.outputs![name]!.status === "summarized")
+          .map((name) => getOutputPath(config, source.id, videoId, name)),
+      });
+    } else {
+      failed.push({
+        source: source.id,
+        videoId,
+        title: record.title,
+        url: record.url,
+        error: record.error,
+        errorKind: record.errorKind,
+      });
+    }
+  }
+
+  return {
+    event: "watch.cycle",
+    project: config.name,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    scannedSources,
+    summaries,
+    failed,
+    combined,
+  };
+}
+
+/** Pending videos that watch cycles queued in these sources */
+async function watchQueue(config: Config, sources: Source[]): Promise<VideoRef[]> {
+  const queued: VideoRef[] = [];
+  for (const source of sources) {
+    if (!existsSync(getSourceCheckpointPath(config, source.id))) continue;
+    const checkpoint = await loadSourceCheckpoint(config, source);
+    for (const [videoId, record] of Object.entries(checkpoint.videos)) {
+      if (record.queuedBy === "watch" && record.status === "pending") queued.push({ sourceId: source.id, videoId });
+    }
+  }
+  return queued;
+}
+
+/** A failed webhook is reported but never stops the watcher */
+async function sendWebhook(config: Config, notification: WatchNotification): Promise<void> {
+  const { webhookUrl, webhookHeaders } = config.settings.watch;
+  if (!webhookUrl) return;
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...webhookHeaders },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(30_000),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    console.log(`📨 Notified ${new URL(webhookUrl).host}`);
+  } catch (error: any) {
+    console.error(`⚠️  Webhook failed: ${error.message}`);
+  }
+}
+
+// ============================================================================
+// Doctor
+// ============================================================================
+
+// yt-dlp versions are release dates; YouTube changes tend to break older ones
+const YT_DLP_MAX_AGE_DAYS = 180;
+
+interface DoctorFinding {
+  section: "dependencies" | "files" | "checkpoints";
+  source?: string;
+  message: string;
+  fix?: () => void; // absent when it needs a decision from the user
+}
+
+async function commandVersion(argv: string[]): Promise<string | undefined> {
+  if (!Bun.which(argv[0]!)) return undefined;
+  const result = await $`${argv} --version`.quiet().nothrow();
+  return result.exitCode === 0 ? result.stdout.toString().trim().split("\n")[0] : undefined;
+}
+
+// Flags every summarize call passes; a build without them can't be used
+const SUMMARIZE_REQUIRED_FLAGS = ["--length", "--prompt"];
+
+/**
+ * yt-dlp is only required when a command would run it: to list a non-feed
+ * source, or to fetch the transcripts a transcript-only backend needs.
+ */
+async function checkDependencies(
+  config: Config
+): Promise<{ ok: string[]; optional: string[]; missing: string[]; findings: DoctorFinding[] }> {
+  const ok: string[] = [];
+  const optional: string[] = [];
+  const missing: string[] = [];
+  const findings: DoctorFinding[] = [];
+  const { backend } = config.settings;
+  const needsYtDlp =
+    config.sources.some((s) => s.enabled !== false && resolveSourceType(s) !== "rss") ||
+    createSummarizerBackend(config).requiresTranscript;
+
+  const ytDlp = await commandVersion(["yt-dlp"]);
+  if (!needsYtDlp) {
+    optional.push(
+      ytDlp
+        ? `yt-dlp ${ytDlp} (not needed: every enabled source is a feed)`
+        : `yt-dlp not installed (only needed for non-feed sources or the openai backend)`
+    );
+  } else if (!ytDlp) {
+    missing.push("yt-dlp");
+    findings.push({
+      section: "dependencies",
+      message: `yt-dlp not found or not working (install from ${DEPENDENCY_URLS["yt-dlp"]})`,
+    });
+  } else {
+    const released = ytDlp.match(/^(\d{4})\.(\d{2})\.(\d{2})/);
+    const ageDays = released
+      ? (Date.now() - Date.UTC(+released[1]!, +released[2]! - 1, +released[3]!)) / 86_400_000
+      : 0;
+    if (ageDays > YT_DLP_MAX_AGE_DAYS) {
+      findings.push({
+        section: "dependencies",
+        message: `yt-dlp ${ytDlp} is over ${YT_DLP_MAX_AGE_DAYS} days old; update it (yt-dlp -U) if scans fail`,
+      });
+    } else {
+      ok.push(`yt-dlp ${ytDlp}`);
+    }
+  }
+
+  if (backend.type === "summarize-cli") {
+    const command = backend.command.join(" ");
+    const summarize = await commandVersion(backend.command);
+    const help = summarize ? (await $`${backend.command} --help`.quiet().nothrow()).stdout.toString() : "";
+    const unsupported = SUMMARIZE_REQUIRED_FLAGS.filter((flag) => !help.includes(flag));
+    if (summarize && unsupported.length > 0) {
+      findings.push({
+        section: "dependencies",
+        message: `${command} ${summarize} doesn't support ${unsupported.join(", ")}; update it (${DEPENDENCY_URLS.summarize})`,
+      });
+    } else if (summarize) {
+      ok.push(`${command} ${summarize}`);
+    } else {
+      missing.push(backend.command[0]!);
+      findings.push({
+        section: "dependencies",
+        message: `${command} not found or not working (install from ${DEPENDENCY_URLS.summarize})`,
+      });
+    }
+  }
+  return { ok, optional, missing, findings };
+}
+
+/**
+ * Compare a source's checkpoint with the files in its folder. Fixes edit the
+ * checkpoint (and delete unusable summary files); the caller saves it.
+ */
+function checkSourceFiles(config: Config, source: Source, checkpoint: SourceCheckpoint): DoctorFinding[] {
+  const findings: DoctorFinding[] = [];
+  const dir = getSourceDir(config, source.id);
+  const outputs = resolveOutputs(config, source).map((o) => o.name);
+  const add = (section: DoctorFinding["section"], message: string, fix?: () => void) =>
+    findings.push({ section, source: source.id, message, fix });
+
+  if (checkpoint.sourceId !== source.id || checkpoint.sourceName !== source.name || checkpoint.sourceUrl !== source.url) {
+    add("checkpoints", `checkpoint header doesn't match the config (${checkpoint.sourceId}, ${checkpoint.sourceUrl})`, () => {
+      checkpoint.sourceId = source.id;
+      checkpoint.sourceName = source.name;
+      checkpoint.sourceUrl = source.url;
+    });
+  }
+
+  // Summaries on disk that the checkpoint doesn't know about
+  for (const file of readdirSync(dir).filter((f) => f.endsWith(".md")).sort()) {
+    const { videoId, output } = parseOutputFileName(file, outputs);
+    // Files of outputs that were since removed from the config are left alone
+    if (checkpoint.videos[videoId] || checkpoint.videos[videoId.split(".")[0]!]) continue;
+
+    const path = join(dir, file);
+    const { data } = parseFrontmatter(readFileSync(path, "utf8"));
+    const recoverable = data.video_id === videoId && data.title !== undefined && data.url !== undefined;
+    add(
+      "files",
+      `orphaned summary ${file}: no checkpoint entry` + (recoverable ? "" : " (and no frontmatter to rebuild one from)"),
+      recoverable
+        ? () => {
+            const processedAt = data.summarized_at || statSync(path).mtime.toISOString();
+            const record = (checkpoint.videos[videoId] ??= { status: "summarized", title: data.title!, url: data.url! });
+            record.processedAt ??= processedAt;
+            record.outputs = { ...record.outputs, [output]: { status: "summarized", processedAt } };
+          }
+        : undefined
+    );
+  }
+
+  for (const [videoId, record] of Object.entries(checkpoint.videos)) {
+    const present: string[] = [];
+    const reported = findings.length;
+    // Once its files are dealt with, a video with no summaries left is queued again
+    const requeueIfEmpty = () => {
+      if (record.status === "summarized" && present.length === 0) {
+        record.status = "pending";
+        delete record.processedAt;
+      }
+    };
+
+    for (const output of outputs) {
+      const path = getOutputPath(config, source.id, videoId, output);
+      const recorded = record.outputs?.[output]?.status === "summarized";
+
+      if (!existsSync(path)) {
+        if (recorded || (record.status === "summarized" && !record.outputs && output === outputs[0])) {
+          add("files", `missing summary ${basename(path)}: checkpoint says it was written`, () => {
+            delete record.outputs?.[output];
+            requeueIfEmpty();
+          });
+        }
+        continue;
+      }
+
+      const problem = summaryFileProblem(path, videoId);
+      if (problem) {
+        add("files", `unusable summary ${basename(path)} (${problem})`, () => {
+          rmSync(path, { force: true });
+          delete record.outputs?.[output];
+          requeueIfEmpty();
+        });
+        continue;
+      }
+      present.push(output);
+    }
+
+    if (record.status === "summarized" && present.length === 0 && findings.length === reported) {
+      add("checkpoints", `${videoId} is marked summarized but has no summaries`, requeueIfEmpty);
+    } else if (
+      (record.status === "pending" || record.status === "error" || record.status === "skipped") &&
+      present.length === outputs.length
+    ) {
+      add("checkpoints", `${videoId} is marked ${record.status} but all its summaries exist`, () => {
+        const now = new Date().toISOString();
+        record.status = "summarized";
+        record.processedAt ??= now;
+        record.outputs ??= {};
+        for (const output of present) {
+          const { fingerprint, processedAt } = record.outputs[output] ?? {};
+          record.outputs[output] = { status: "summarized", processedAt: processedAt ?? now, fingerprint };
+        }
+        delete record.error;
+        delete record.errorKind;
+      });
+    }
+
+    if (record.status === "in-progress") {
+      const expired = !record.leaseExpiresAt || new Date(record.leaseExpiresAt).getTime() < Date.now();
+      if (expired || (record.leaseOwner && isOwnerDead(record.leaseOwner))) {
+        add("checkpoints", `${videoId} is still in-progress from a run that's gone`, () => {
+          record.status = "pending";
+          clearLease(record);
+        });
+      }
+    }
+
+    const hasTranscript = existsSync(getTranscriptPath(config, source.id, videoId));
+    if (record.hasTranscript !== undefined && record.hasTranscript !== hasTranscript) {
+      add(
+        "checkpoints",
+        `${videoId}: transcript is ${hasTranscript ? "cached but not recorded" : "recorded but missing"}`,
+        () => {
+          record.hasTranscript = hasTranscript;
+        }
+      );
+    }
+
+    if (record.extraction?.status === "extracted" && !existsSync(getExtractionPath(config, source.id, videoId))) {
+      add("files", `missing ${videoId}.json: checkpoint says its fields were extracted`, () => {
+        delete record.extraction;
+      });
+    }
+  }
+
+  return findings;
+}
+
+async function cmdDoctor(options: { fix?: boolean }): Promise<void> {
+  const config = await loadConfig(CONFIG_PATH);
+  const outputDir = getOutputDir(config);
+
+  console.log(`🩺 Checking: ${config.name}\n`);
+
+  const dependencies = await checkDependencies(config);
+  const findings = [...dependencies.findings];
+  const checkpoints: SourceCheckpoint[] = [];
+
+  // Folders of sources that are no longer configured
+  if (existsSync(outputDir)) {
+    for (const entry of readdirSync(outputDir, { withFileTypes: true })) {
+      if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+      if (config.sources.some((s) => s.id === entry.name)) continue;
+      findings.push({
+        section: "files",
+        source: entry.name,
+        message: `${join(outputDir, entry.name)}/ doesn't belong to a configured source (delete it, or add the source back)`,
+      });
+    }
+  }
+
+  for (const source of config.sources) {
+    const path = getSourceCheckpointPath(config, source.id);
+    if (!existsSync(getSourceDir(config, source.id))) continue;
+    if (options.fix && !lockSource(config, source.id, "doctor")) continue;
+
+    // Read here rather than through loadSourceCheckpoint, which exits on a bad file
+    const read = existsSync(path)
+      ? await readSourceCheckpoint(path)
+      : { ok: true as const, checkpoint: await loadSourceCheckpoint(config, source), version: CHECKPOINT_VERSION };
+    if (!read.ok) {
+      // Needs a look by hand: restore it from a backup, or reset the source
+      findings.push({
+        section: "checkpoints",
+        source: source.id,
+        message: `${basename(path)} is ${read.corrupt ? "corrupt" : "invalid"}: ${read.problems.join("; ")}`,
+      });
+      continue;
+    }
+    const { checkpoint, version } = read;
+    checkpoints.push(checkpoint);
+    if (version < CHECKPOINT_VERSION) {
+      // Loading already migrated it; saving makes that permanent
+      findings.push({
+        section: "checkpoints",
+        source: source.id,
+        message: `checkpoint is in format v${version} (current: v${CHECKPOINT_VERSION})`,
+        fix: () => {},
+      });
+    }
+    findings.push(...checkSourceFiles(config, source, checkpoint));
+  }
+
+  const sections: [DoctorFinding["section"], string][] = [
+    ["dependencies", "Dependencies"],
+    ["files", "Summary files"],
+    ["checkpoints", "Checkpoints"],
+  ];
+  let fixed = 0;
+  for (const [section, title] of sections) {
+    const inSection = findings.filter((f) => f.section === section);
+    if (section !== "dependencies" && inSection.length === 0) continue;
+
+    console.log(title);
+    if (section === "dependencies") {
+      for (const ok of dependencies.ok) console.log(`  ✅ ${ok}`);
+      for (const optional of dependencies.optional) console.log(`  ➖ ${optional}`);
+    }
+    for (const finding of inSection) {
+      const where = finding.source ? `${finding.source}: ` : "";
+      if (options.fix && finding.fix) {
+        finding.fix();
+        fixed++;
+        console.log(`  🔧 ${where}${finding.message} (fixed)`);
+      } else {
+        console.log(`  ❌ ${where}${finding.message}`);
+      }
+      emitEvent("doctor.finding", {
+        section,
+        source: finding.source,
+        message: finding.message,
+        fixable: finding.fix !== undefined,
+        fixed: options.fix === true && finding.fix !== undefined,
+      });
+    }
+    console.log();
+  }
+
+  if (fixed > 0) {
+    for (const checkpoint of checkpoints) await saveSourceCheckpoint(config, checkpoint);
+  }
+
+  const fixable = findings.filter((f) => f.fix).length;
+  if (findings.length === 0) {
+    console.log(`✅ No problems found`);
+  } else if (options.fix) {
+    console.log(`🔧 Fixed ${fixed} of ${findings.length} problems` + (fixed < findings.length ? "; the rest need a manual fix" : ""));
+  } else {
+    console.log(
+      `${findings.length} problems found` +
+        (fixable > 0 ? `; run 'bulk-summarize doctor --fix' to repair ${fixable} of them` : "")
+    );
+  }
+  emitEvent("summary", { command: "doctor", problems: findings.length, fixable, fixed });
+
+  if (dependencies.missing.length > 0) process.exit(EXIT_MISSING_DEPENDENCY);
+  if (findings.length > fixed) markPartialFailure();
+}
+
+// ============================================================================
+// Commands
 // ============================================================================
 
 async function cmdInit(name?: string): Promise<void> {
   const configName = name || "bulk-summarize.json";
 
-  if (existsSync(configName)) {
-    console.error(`❌ Config already exists: ${configName}`);
-    process.exit(1);
+  if (existsSync(configName)) {
+    console.error(`❌ Config already exists: ${configName}`);
+    process.exit(EXIT_ERROR);
+  }
+
+  const starterConfig: ConfigInput = {
+    name: "My Research Project",
+    description: "YouTube video summaries for research",
+    keywords: [],
+    sources: [
+      {
+        id: "example-channel",
+        name: "Example Channel",
+        url: "https://www.youtube.com/@ExampleChannel",
+        enabled: true,
+        tags: ["example"],
+      },
+    ],
+    settings: {
+      maxVideosPerSource: 50,
+      summaryLength: "xl",
+      summaryPrompt:
+        "Create a comprehensive summary of this video. Extract key insights, practical tips, and important information. Ignore ads, sponsors, and promotional content.\n\nTitle: {title}\nSource: {source}",
+      outputDir: "summaries",
+    },
+  };
+
+  await Bun.write(
+    configName,
+    isYamlPath(configName) ? Bun.YAML.stringify(starterConfig, null, 2) : JSON.stringify(starterConfig, null, 2)
+  );
+  console.log(`✅ Created config: ${configName}`);
+  console.log(`\nNext steps:`);
+  console.log(`  1. Edit ${configName} to add your sources and keywords`);
+  console.log(`  2. Run: bulk-summarize scan`);
+  console.log(`  3. Run: bulk-summarize summarize`);
+}
+
+interface VideoRef {
+  sourceId: string;
+  videoId: string;
+}
+
+/**
+ * Add what a listing found to the checkpoint: new matches are queued, known
+ * records get metadata they were missing. Returns the videos added.
+ */
+function recordScanResult(checkpoint: SourceCheckpoint, result: ScanResult, queuedBy?: "watch"): VideoInfo[] {
+  for (const video of result.videos) {
+    checkpoint.videos[video.id] = {
+      status: "pending",
+      title: video.title,
+      url: video.url,
+      uploadDate: video.uploadDate,
+      duration: video.duration,
+      description: video.description,
+      queuedBy,
+    };
+  }
+  for (const video of result.known) {
+    const existing = checkpoint.videos[video.id];
+    if (!existing) continue; // the remembered newest item, which didn't match
+    // Backfill metadata for records written before it was kept
+    existing.uploadDate ??= video.uploadDate;
+    existing.duration ??= video.duration;
+    existing.description ??= video.description;
+  }
+  return result.videos;
+}
+
+/** Returns the videos newly added to the queue */
+async function cmdScan(options: {
+  source?: string;
+  sourceIds?: string[];
+  backfill?: boolean; // page through the whole history, continuing where the last backfill stopped
+  full?: boolean; // list the whole maxVideosPerSource window even past known videos
+  limit?: number; // backfill: items to list per source in this run
+  queuedBy?: "watch"; // recorded on new videos so later watch cycles retry them
+}): Promise<VideoRef[]> {
+  const config = await loadConfig(CONFIG_PATH);
+
+  console.log(`🔍 ${options.backfill ? "Backfilling" : "Scanning"} sources for: ${config.name}\n`);
+
+  if (config.keywords.length > 0) {
+    console.log(`Default keywords: ${config.keywords.join(", ")}\n`);
+  }
+
+  let sources = config.sources.filter((s) => s.enabled !== false);
+  const added: VideoRef[] = [];
+  const totals = { known: 0, filteredOut: 0 };
+  let failed = 0;
+
+  if (options.sourceIds) {
+    sources = sources.filter((s) => options.sourceIds!.includes(s.id));
+  }
+  if (options.source) {
+    sources = sources.filter(
+      (s) =>
+        s.id === options.source ||
+        s.id.includes(options.source!) ||
+        s.name.toLowerCase().includes(options.source!.toLowerCase())
+    );
+    if (sources.length === 0) {
+      console.error(`❌ No source found matching: ${options.source}`);
+      process.exit(EXIT_ERROR);
+    }
+  }
+  requireCommands(sources.some((s) => resolveSourceType(s) !== "rss") ? ["yt-dlp"] : []);
+
+  for (const source of sources) {
+    if (!lockSource(config, source.id, "scan")) continue;
+    const checkpoint = await loadSourceCheckpoint(config, source);
+    const sourceType = resolveSourceType(source);
+
+    // Use source-specific keywords if defined, otherwise fall back to global
+    const keywords = source.keywords ?? config.keywords;
+    const keywordMatch = source.keywordMatch ?? config.keywordMatch;
+    const filters = resolveVideoFilters(config, source);
+    const isKnown = (videoId: string) => videoId in checkpoint.videos || videoId === checkpoint.scan?.newest;
+
+    console.log(`\n📺 Scanning: ${source.name}`);
+    console.log(`   URL: ${source.url} (${sourceType})`);
+    if (keywords.length > 0) {
+      console.log(`   Keywords: ${keywords.join(", ")} (in ${keywordMatch})`);
+    }
+
+    const newVideos: VideoInfo[] = [];
+    const scanned = { found: 0, known: 0, filteredOut: 0, stoppedAtKnown: false };
+    let error: string | undefined;
+
+    if (options.backfill) {
+      const backfill = checkpoint.scan?.backfill ?? { offset: 0, complete: false, updatedAt: "" };
+      if (backfill.complete) {
+        console.log(`   ✅ Backfill already reached the oldest video (reset the source to start over)`);
+        continue;
+      }
+      if (backfill.offset > 0) console.log(`   Continuing after item ${backfill.offset}`);
+
+      // One chunk at a time, saving after each so an interrupted backfill resumes there
+      let budget = options.limit ?? Infinity;
+      while (budget > 0) {
+        const window = {
+          offset: backfill.offset,
+          limit: Math.min(config.settings.backfillChunk, budget),
+          stopAtKnown: false,
+        };
+        const result = await scanSource(source, isKnown, keywords, keywordMatch, filters, window);
+        newVideos.push(...recordScanResult(checkpoint, result, options.queuedBy));
+        scanned.found += result.found;
+        scanned.known += result.known.length;
+        scanned.filteredOut += result.filteredOut;
+        budget -= result.consumed;
+
+        backfill.offset += result.consumed;
+        backfill.complete = result.exhausted && !result.error;
+        backfill.updatedAt = new Date().toISOString();
+        checkpoint.scan = { ...checkpoint.scan, backfill };
+        await saveSourceCheckpoint(config, checkpoint);
+
+        error = result.error;
+        if (error || backfill.complete) break;
+      }
+      console.log(
+        backfill.complete
+          ? `   ✅ Backfill reached the oldest video (${backfill.offset} listed)`
+          : `   Backfill stopped after item ${backfill.offset}; run 'scan --backfill' again to continue`
+      );
+    } else {
+      // Only once a previous scan went through the window is stopping early safe
+      const window = {
+        offset: 0,
+        limit: config.settings.maxVideosPerSource,
+        stopAtKnown: SOURCE_ADAPTERS[sourceType].newestFirst && checkpoint.scan?.newest !== undefined && !options.full,
+      };
+      const result = await scanSource(source, isKnown, keywords, keywordMatch, filters, window);
+      newVideos.push(...recordScanResult(checkpoint, result, options.queuedBy));
+      Object.assign(scanned, {
+        found: result.found,
+        known: result.known.length,
+        filteredOut: result.filteredOut,
+        stoppedAtKnown: result.stoppedAtKnown,
+      });
+      error = result.error;
+      if (!error) checkpoint.scan = { ...checkpoint.scan, newest: result.first };
+    }
+
+    // A failed listing still counts as a scan, so watch doesn't retry it every minute
+    checkpoint.lastScanned = new Date().toISOString();
+    await saveSourceCheckpoint(config, checkpoint);
+    added.push(...newVideos.map((video) => ({ sourceId: source.id, videoId: video.id })));
+    totals.known += scanned.known;
+    totals.filteredOut += scanned.filteredOut;
+    if (error) {
+      failed++;
+      markPartialFailure();
+      emitEvent("scan.failed", { source: source.id, error, found: scanned.found, added: newVideos.length });
+      continue;
+    }
+    console.log(`   Added ${newVideos.length} new videos to queue`);
+    emitEvent("scan.source", {
+      source: source.id,
+      ...scanned,
+      new: newVideos.length,
+      backfill: options.backfill ? checkpoint.scan?.backfill : undefined,
+      added: newVideos.map((v) => ({ videoId: v.id, title: v.title, url: v.url })),
+    });
+  }
+
+  console.log(`\n✅ Scan complete! Run 'bulk-summarize summarize' to process.`);
+  emitEvent("summary", { command: "scan", sources: sources.length, added: added.length, ...totals, failed });
+  return added;
+}
+
+async function cmdSummarize(options: {
+  limit?: number;
+  source?: string;
+  delay?: number;
+  parallel?: number;
+  rpm?: number;
+  stale?: boolean;
+  only?: VideoRef[]; // just these videos (used by watch for newly scanned ones)
+  maxCost?: number; // USD
+  maxMinutes?: number;
+}): Promise<WorkItem[]> {
+  const config = await loadConfig(CONFIG_PATH);
+  const delay = options.delay ?? 1000;
+  const parallel = options.parallel ?? 1;
+  const rpm = options.rpm ?? config.settings.requestsPerMinute;
+  const runStartedAt = Date.now();
+
+  console.log(`📝 Summarizing videos for: ${config.name}`);
+  if (options.stale) console.log(`   Mode: regenerate stale summaries`);
+  if (parallel > 1) console.log(`   Parallel: ${parallel} concurrent`);
+  if (rpm) console.log(`   Rate limit: ${rpm} requests/minute`);
+  if (delay !== 1000) console.log(`   Delay: ${delay}ms`);
+  if (options.maxCost !== undefined) console.log(`   Budget: $${options.maxCost}`);
+  if (options.maxMinutes !== undefined) console.log(`   Time limit: ${options.maxMinutes} minutes`);
+  requireBackendCommand(config);
+  if (options.maxCost !== undefined) {
+    const backend = createSummarizerBackend(config);
+    const unpriced = resolveOutputs(config)
+      .map((output) => effectiveModel(config, output))
+      .filter((model) => !config.settings.prices[model]);
+    if (!backend.reportsUsage) {
+      console.log(`   ⚠️  This backend doesn't report token usage, so --max-cost can't be enforced`);
+    } else if (unpriced.length > 0) {
+      console.log(`   ⚠️  No settings.prices entry for ${[...new Set(unpriced)].join(", ")}; their cost isn't counted`);
+    }
   }
+  console.log();
 
-  const starterConfig: Config = {
-    name: "My Research Project",
-    description: "YouTube video summaries for research",
-    keywords: [],
-    sources: [
-      {
-        id: "example-channel",
-        name: "Example Channel",
-        url: "https://www.youtube.com/@ExampleChannel",
-        enabled: true,
-        tags: ["example"],
-      },
-    ],
-    settings: {
-      maxVideosPerSource: 50,
-      summaryLength: "xl",
-      summaryPrompt:
-        "Create a comprehensive summary of this video. Extract key insights, practical tips, and important information. Ignore ads, sponsors, and promotional content.\n\nTitle: {title}\nSource: {source}",
-      outputDir: "summaries",
+  let sources = config.sources.filter((s) => s.enabled !== false);
+
+  if (options.source) {
+    sources = sources.filter(
+      (s) => s.id === options.source || s.id.includes(options.source!)
+    );
+  }
+  if (options.only) {
+    sources = sources.filter((s) => options.only!.some((ref) => ref.sourceId === s.id));
+  }
+
+  // Build one queue across all sources, interleaved so every source makes progress
+  const perSource: WorkItem[][] = [];
+  for (const source of sources) {
+    if (!lockSource(config, source.id, "summarize")) continue;
+    const checkpoint = await loadSourceCheckpoint(config, source);
+
+    const reclaimed = reclaimExpiredLeases(checkpoint);
+    if (reclaimed > 0) {
+      console.log(`♻️  ${source.name}: reclaimed ${reclaimed} videos from an interrupted run`);
+      await saveSourceCheckpoint(config, checkpoint);
+    }
+
+    // Summarized videos come back when an output was added to the config or their
+    // extraction is missing or outdated; with --stale, only summarized videos whose
+    // outputs are out of date are queued
+    const items = Object.entries(checkpoint.videos)
+      .filter(
+        ([videoId]) =>
+          !options.only || options.only.some((ref) => ref.sourceId === source.id && ref.videoId === videoId)
+      )
+      .filter(([videoId, v]) =>
+        options.stale
+          ? v.status === "summarized" && staleOutputs(config, source, videoId, v).length > 0
+          : v.status === "pending" ||
+            (v.status === "summarized" &&
+              (pendingOutputs(config, source, videoId, v).length > 0 ||
+                needsExtraction(config, source, videoId, v)))
+      )
+      .map(([videoId, record]) => ({ source, checkpoint, videoId, record }));
+
+    if (items.length > 0) {
+      console.log(`📺 ${source.name}: ${items.length} ${options.stale ? "stale" : "pending"}`);
+      perSource.push(items);
+    }
+  }
+
+  const queue = interleave(perSource).slice(0, options.limit || Infinity);
+  if (queue.length === 0) {
+    console.log(`\n✅ Processed 0 videos`);
+    emitEvent("summary", { command: "summarize", processed: 0, failed: 0, remaining: 0 });
+    return [];
+  }
+  console.log();
+
+  const limiter = createRateLimiter(rpm);
+  const saveCheckpoint = createCheckpointSaver(config);
+  const processed: WorkItem[] = [];
+  let runUsage: Usage = { wallMs: 0 };
+  let failed = 0;
+  let budgetStop: string | undefined;
+  const budgetReached = () => {
+    if (options.maxCost !== undefined && (runUsage.costUsd ?? 0) >= options.maxCost) {
+      budgetStop = `cost budget of $${options.maxCost} reached`;
+    } else if (options.maxMinutes !== undefined && Date.now() - runStartedAt >= options.maxMinutes * 60_000) {
+      budgetStop = `time limit of ${options.maxMinutes} minutes reached`;
+    }
+    return budgetStop !== undefined;
+  };
+
+  await runWorkerPool(queue, parallel, async (item) => {
+    const { source, checkpoint, videoId, record } = item;
+    const outputs = options.stale
+      ? staleOutputs(config, source, videoId, record)
+      : pendingOutputs(config, source, videoId, record);
+    const previousStatus = record.status;
+    leaseVideo(config, record);
+    await saveCheckpoint(checkpoint);
+    const event = { source: source.id, videoId, title: record.title };
+    emitEvent("video.started", { ...event, outputs: outputs.map((o) => o.name) });
+    let itemUsage: Usage | undefined;
+    let failure: Record<string, unknown> | undefined;
+    let extracted = false;
+
+    // A summarized video queued only for its extraction keeps its summary bookkeeping
+    const outcome =
+      outputs.length > 0
+        ? await summarizeWithRetry(
+            recordToVideoInfo(videoId, record),
+            config,
+            source,
+            outputs,
+            limiter,
+            options.stale
+          )
+        : undefined;
+    if (outcome) {
+      applySummarizeOutcome(record, outcome);
+      itemUsage = addUsage(itemUsage, outcome.usage);
+      if (!outcome.success) {
+        failure = {
+          stage: "summarize",
+          output: outcome.failedOutput,
+          error: outcome.error,
+          errorKind: outcome.errorKind,
+          retryable: isRetryableError(outcome.errorKind!),
+        };
+      }
+    } else {
+      record.status = previousStatus;
+      clearLease(record);
+    }
+    if (!options.stale && record.status === "summarized" && needsExtraction(config, source, videoId, record)) {
+      const result = await extractVideo(recordToVideoInfo(videoId, record), config, source, limiter);
+      applyExtractResult(config, record, result);
+      itemUsage = addUsage(itemUsage, result.usage);
+      if (result.error) failure = { stage: "extract", error: result.error };
+      extracted = !result.error;
+    }
+    if (options.stale && !outcome?.success) {
+      // The previous outputs are still on disk, so the video stays summarized
+      record.status = "summarized";
+    }
+    record.hasTranscript = existsSync(getTranscriptPath(config, source.id, videoId));
+    await saveCheckpoint(checkpoint);
+    processed.push(item);
+    if (itemUsage) runUsage = addUsage(runUsage, itemUsage);
+    if (failure) {
+      failed++;
+      markPartialFailure();
+      emitEvent("video.failed", { ...event, ...failure, status: record.status, usage: itemUsage });
+    } else {
+      emitEvent("video.finished", {
+        ...event,
+        outputs: outcome?.completed ?? [],
+        extracted,
+        usage: itemUsage,
+      });
+    }
+
+    if (delay > 0) {
+      await Bun.sleep(delay);
+    }
+  }, budgetReached);
+
+  if (budgetStop) {
+    console.log(`\n💸 Stopped: ${budgetStop}; ${queue.length - processed.length} videos left for the next run`);
+  }
+  console.log(`\n✅ Processed ${processed.length} videos` + (failed > 0 ? `, ${failed} failed` : ""));
+  if (processed.length > 0) console.log(`   ${formatUsage({ ...runUsage, wallMs: Date.now() - runStartedAt })}`);
+  emitEvent("summary", {
+    command: "summarize",
+    processed: processed.length,
+    failed,
+    remaining: queue.length - processed.length,
+    stopped: budgetStop,
+    usage: { ...runUsage, wallMs: Date.now() - runStartedAt },
+  });
+  return processed;
+}
+
+async function cmdTranscripts(options: {
+  limit?: number;
+  source?: string;
+  parallel?: number;
+  rpm?: number;
+}): Promise<void> {
+  const config = await loadConfig(CONFIG_PATH);
+
+  console.log(`📜 Fetching transcripts for: ${config.name}\n`);
+  requireCommands(["yt-dlp"]);
+
+  let sources = config.sources.filter((s) => s.enabled !== false);
+  if (options.source) {
+    sources = sources.filter(
+      (s) => s.id === options.source || s.id.includes(options.source!)
+    );
+  }
+
+  const perSource: WorkItem[][] = [];
+  const checkpoints: SourceCheckpoint[] = [];
+  for (const source of sources) {
+    if (!existsSync(getSourceCheckpointPath(config, source.id))) continue;
+    if (!lockSource(config, source.id, "transcripts")) continue;
+
+    const checkpoint = await loadSourceCheckpoint(config, source);
+    checkpoints.push(checkpoint);
+    const items = Object.entries(checkpoint.videos)
+      .filter(([videoId, v]) => {
+        if (v.status === "skipped") return false;
+        // Pick up transcripts that exist on disk but were never recorded
+        v.hasTranscript = existsSync(getTranscriptPath(config, source.id, videoId));
+        return !v.hasTranscript;
+      })
+      .map(([videoId, record]) => ({ source, checkpoint, videoId, record }));
+
+    if (items.length > 0) {
+      console.log(`📺 ${source.name}: ${items.length} without transcript`);
+      perSource.push(items);
+    }
+  }
+
+  const queue = interleave(perSource).slice(0, options.limit || Infinity);
+  const limiter = createRateLimiter(options.rpm ?? config.settings.requestsPerMinute);
+  const saveCheckpoint = createCheckpointSaver(config);
+  let fetched = 0;
+  let failed = 0;
+
+  await runWorkerPool(queue, options.parallel ?? 1, async ({ source, checkpoint, videoId, record }) => {
+    const path = getTranscriptPath(config, source.id, videoId);
+    const event = { source: source.id, videoId, title: record.title };
+    await limiter.acquire();
+    emitEvent("video.started", event);
+
+    try {
+      const text = await fetchTranscript(recordToVideoInfo(videoId, record), config.settings.subtitleLanguages);
+      await Bun.write(path, text + "\n");
+      record.hasTranscript = true;
+      fetched++;
+      console.log(`   ✅ ${record.title.substring(0, 60)}`);
+      emitEvent("video.finished", { ...event, transcript: path });
+    } catch (error: any) {
+      const errorMsg = error.stderr?.toString().trim() || error.message;
+      record.hasTranscript = false;
+      failed++;
+      markPartialFailure();
+      console.error(`   ❌ ${record.title.substring(0, 40)}: ${errorMsg.trim().substring(0, 80)}`);
+      emitEvent("video.failed", { ...event, stage: "transcript", error: errorMsg.trim() });
+    }
+    await saveCheckpoint(checkpoint);
+  });
+
+  // Checkpoints with nothing queued may still have had hasTranscript refreshed
+  for (const checkpoint of checkpoints) {
+    await saveCheckpoint(checkpoint);
+  }
+
+  console.log(`\n✅ Fetched ${fetched} transcripts` + (failed > 0 ? `, ${failed} unavailable` : ""));
+  emitEvent("summary", { command: "transcripts", fetched, failed });
+}
+
+async function cmdRetry(options: { source?: string; kind?: string }): Promise<void> {
+  const config = await loadConfig(CONFIG_PATH);
+
+  if (options.kind && !ERROR_KINDS.includes(options.kind as ErrorKind)) {
+    console.error(`❌ Unknown error kind: ${options.kind}`);
+    console.error(`   Expected one of: ${ERROR_KINDS.join(", ")}`);
+    process.exit(EXIT_ERROR);
+  }
+  if (options.kind && !isRetryableError(options.kind as ErrorKind)) {
+    console.error(`❌ ${options.kind} errors are permanent and are not retried`);
+    process.exit(EXIT_ERROR);
+  }
+
+  let sources = config.sources.filter((s) => s.enabled !== false);
+  if (options.source) {
+    sources = sources.filter(
+      (s) => s.id === options.source || s.id.includes(options.source!)
+    );
+  }
+
+  let requeued = 0;
+  for (const source of sources) {
+    if (!existsSync(getSourceCheckpointPath(config, source.id))) continue;
+    if (!lockSource(config, source.id, "retry")) continue;
+
+    const checkpoint = await loadSourceCheckpoint(config, source);
+    let sourceRequeued = 0;
+
+    for (const [videoId, record] of Object.entries(checkpoint.videos)) {
+      if (record.status !== "error") continue;
+
+      // Records from before classification only have the raw message
+      const kind = record.errorKind ?? classifyError(record.error || "");
+      if (options.kind && kind !== options.kind) continue;
+      if (!isRetryableError(kind)) {
+        record.status = "skipped";
+        record.errorKind = kind;
+        console.log(`⏭️  ${source.name}: ${videoId} marked skipped (${kind} is permanent): ${record.title}`);
+        continue;
+      }
+
+      record.status = "pending";
+      sourceRequeued++;
+    }
+
+    if (sourceRequeued > 0) {
+      console.log(`🔁 ${source.name}: ${sourceRequeued} re-queued`);
+    }
+    requeued += sourceRequeued;
+    await saveSourceCheckpoint(config, checkpoint);
+  }
+
+  console.log(`\n✅ Re-queued ${requeued} videos. Run 'bulk-summarize summarize' to process.`);
+  emitEvent("summary", { command: "retry", requeued });
+}
+
+/** Sources a queue command works on: all of them, or those matching --source */
+function queueSources(config: Config, sourceFilter?: string): Source[] {
+  if (!sourceFilter) return config.sources;
+  const sources = config.sources.filter((s) => s.id === sourceFilter || s.id.includes(sourceFilter));
+  if (sources.length === 0) {
+    console.error(`❌ No source found matching: ${sourceFilter}`);
+    process.exit(EXIT_ERROR);
+  }
+  return sources;
+}
+
+/**
+ * Change the checkpoint records `select` picks, one locked source at a time.
+ * `apply` may delete the record from `checkpoint.videos`. Returns the ids
+ * changed, and the sources skipped because another run holds their lock.
+ */
+async function updateVideoRecords(
+  config: Config,
+  sources: Source[],
+  command: string,
+  select: (videoId: string, record: VideoRecord) => boolean,
+  apply: (checkpoint: SourceCheckpoint, videoId: string, record: VideoRecord, source: Source) => void
+): Promise<{ changed: string[]; locked: string[] }> {
+  const changed: string[] = [];
+  const locked: string[] = [];
+  for (const source of sources) {
+    if (!existsSync(getSourceCheckpointPath(config, source.id))) continue;
+    if (!lockSource(config, source.id, command)) {
+      locked.push(source.id);
+      markPartialFailure();
+      continue;
+    }
+
+    const checkpoint = await loadSourceCheckpoint(config, source);
+    const selected = Object.entries(checkpoint.videos).filter(([videoId, record]) => select(videoId, record));
+    if (selected.length === 0) continue;
+
+    for (const [videoId, record] of selected) {
+      apply(checkpoint, videoId, record, source);
+      changed.push(videoId);
+    }
+    await saveSourceCheckpoint(config, checkpoint);
+  }
+  return { changed, locked };
+}
+
+function reportUnknownVideos(videoIds: string[], found: string[], locked: string[]): void {
+  const unknown = videoIds.filter((id) => !found.includes(id));
+  if (unknown.length === 0) return;
+  if (locked.length > 0) {
+    // They may well be in a source that couldn't be read
+    console.error(`❌ Not found: ${unknown.join(", ")} (not checked, locked: ${locked.join(", ")})`);
+  } else {
+    console.error(`❌ Not in any checkpoint: ${unknown.join(", ")}`);
+  }
+  markPartialFailure();
+}
+
+async function cmdSkip(videoIds: string[], options: { source?: string }): Promise<void> {
+  if (videoIds.length === 0) {
+    console.error(`❌ Usage: bulk-summarize skip <video-id>... [--source <id>]`);
+    process.exit(EXIT_ERROR);
+  }
+  const config = await loadConfig(CONFIG_PATH);
+  const sources = queueSources(config, options.source);
+
+  const found: string[] = [];
+  const { changed: skipped, locked } = await updateVideoRecords(
+    config,
+    sources,
+    "skip",
+    (videoId, record) => {
+      if (!videoIds.includes(videoId)) return false;
+      found.push(videoId);
+      if (record.status === "summarized" || record.status === "skipped") {
+        console.log(`⏭️  ${videoId} is already ${record.status}: ${record.title}`);
+        return false;
+      }
+      return true;
+    },
+    (_checkpoint, videoId, record) => {
+      record.status = "skipped";
+      delete record.error;
+      delete record.errorKind;
+      clearLease(record);
+      console.log(`⏭️  Skipped ${videoId}: ${record.title}`);
+    }
+  );
+
+  reportUnknownVideos(videoIds, found, locked);
+  emitEvent("summary", { command: "skip", skipped: skipped.length, locked });
+}
+
+/**
+ * Put videos back to `pending`: the ids given, or every video with one of the
+ * statuses. Summarized videos lose their summary files, since `summarize` keeps
+ * any summary it finds on disk.
+ */
+async function cmdRequeue(videoIds: string[], options: { source?: string; status?: string[] }): Promise<void> {
+  if (videoIds.length === 0 && !options.status?.length) {
+    console.error(`❌ Usage: bulk-summarize requeue <video-id>... | --status <a,b> [--source <id>]`);
+    process.exit(EXIT_ERROR);
+  }
+  const config = await loadConfig(CONFIG_PATH);
+  const sources = queueSources(config, options.source);
+  const statuses = parseStatusFilter(options.status ?? []);
+
+  const found: string[] = [];
+  let removedFiles = 0;
+  const { changed: requeued, locked } = await updateVideoRecords(
+    config,
+    sources,
+    "requeue",
+    (videoId, record) => {
+      if (videoIds.length > 0 && !videoIds.includes(videoId)) return false;
+      if (statuses.length > 0 && !statuses.includes(record.status)) return false;
+      found.push(videoId);
+      if (record.status === "pending" && videoIds.length > 0) {
+        console.log(`⏭️  ${videoId} is already pending: ${record.title}`);
+      }
+      return record.status !== "pending";
     },
+    (_checkpoint, videoId, record, source) => {
+      if (record.status === "summarized") {
+        for (const output of resolveOutputs(config, source)) {
+          const path = getOutputPath(config, source.id, videoId, output.name);
+          if (existsSync(path)) {
+            rmSync(path);
+            removedFiles++;
+          }
+        }
+        delete record.outputs;
+        delete record.processedAt;
+      }
+      record.status = "pending";
+      delete record.error;
+      delete record.errorKind;
+      clearLease(record);
+      console.log(`🔁 Re-queued ${videoId}: ${record.title}`);
+    }
+  );
+
+  if (videoIds.length > 0) reportUnknownVideos(videoIds, found, locked);
+  console.log(
+    `\n✅ Re-queued ${requeued.length} videos` +
+      (removedFiles > 0 ? ` (deleted ${removedFiles} old summaries)` : "") +
+      `. Run 'bulk-summarize summarize' to process.`
+  );
+  emitEvent("summary", { command: "requeue", requeued: requeued.length, removedFiles, locked });
+}
+
+/** Validate a --status list against the checkpoint statuses, exiting on unknown ones */
+function parseStatusFilter(statuses: string[]): VideoRecord["status"][] {
+  const unknown = statuses.filter((s) => !VIDEO_STATUSES.includes(s as VideoRecord["status"]));
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown status: ${unknown.join(", ")}`);
+    console.error(`   Expected one of: ${VIDEO_STATUSES.join(", ")}`);
+    process.exit(EXIT_ERROR);
+  }
+  return statuses as VideoRecord["status"][];
+}
+
+async function cmdQueueList(options: { source?: string; status?: string[]; limit?: number }): Promise<void> {
+  const config = await loadConfig(CONFIG_PATH);
+  const sources = queueSources(config, options.source);
+  const statuses = parseStatusFilter(options.status?.length ? options.status : ["pending"]);
+
+  let total = 0;
+  for (const source of sources) {
+    if (!existsSync(getSourceCheckpointPath(config, source.id))) continue;
+    const checkpoint = await loadSourceCheckpoint(config, source);
+    // Checkpoint order is the order summarize works through them
+    const items = Object.entries(checkpoint.videos).filter(([, record]) => statuses.includes(record.status));
+    if (items.length === 0) continue;
+
+    console.log(`📺 ${source.name} (${source.id}): ${items.length} ${statuses.join("/")}`);
+    for (const [videoId, record] of items.slice(0, options.limit)) {
+      const { upload_date, duration } = promptVariables(recordToVideoInfo(videoId, record), config, source);
+      const status = statuses.length > 1 ? `  [${record.status}]` : "";
+      console.log(`   ${videoId}  ${upload_date.padEnd(10)}  ${duration.padStart(8)}  ${record.title}${status}`);
+      if (record.error) console.log(`      ${record.errorKind ?? "error"}: ${record.error.split("\n")[0]}`);
+      emitEvent("queue.item", {
+        source: source.id,
+        videoId,
+        status: record.status,
+        title: record.title,
+        url: record.url,
+        uploadDate: upload_date === "unknown" ? undefined : upload_date,
+        duration: record.duration,
+        error: record.error,
+      });
+    }
+    if (options.limit !== undefined && items.length > options.limit) {
+      console.log(`   ... and ${items.length - options.limit} more`);
+    }
+    console.log();
+    total += items.length;
+  }
+
+  if (total === 0) console.log(`✅ No ${statuses.join("/")} videos`);
+  emitEvent("summary", { command: "queue list", videos: total });
+}
+
+/** Add one video by URL to a source's queue, e.g. one that its listing misses */
+async function cmdQueueAdd(url: string | undefined, options: { source?: string }): Promise<void> {
+  if (!url || !URL.canParse(url) || !options.source) {
+    console.error(`❌ Usage: bulk-summarize queue add <video-url> --source <id>`);
+    process.exit(EXIT_ERROR);
+  }
+  const config = await loadConfig(CONFIG_PATH);
+  const source = findConfiguredSource(config, options.source, "queue add <video-url> --source");
+  const isFeed = resolveSourceType(source) === "rss";
+
+  console.log(`🔍 Looking up: ${url}`);
+  let video: VideoInfo | undefined;
+  if (isFeed) {
+    // Take the episode from the feed, so it gets the id later scans give it
+    try {
+      const listing = await rssAdapter.list(source.url, 0, Infinity);
+      video = listing.videos.find((v) => v.url === url);
+    } catch (error: any) {
+      console.log(`   ⚠️  Could not read the feed (${error.message}); asking yt-dlp instead`);
+    }
+  }
+
+  if (!video) {
+    requireCommands(["yt-dlp"]);
+    let entry: YtDlpEntry;
+    try {
+      const result = await $`yt-dlp --dump-single-json --no-playlist --skip-download --no-warnings ${url}`.quiet();
+      entry = YtDlpEntrySchema.parse(JSON.parse(result.stdout.toString()));
+    } catch (error: any) {
+      const errorMsg = error.stderr?.toString().trim() || error.message;
+      console.error(`❌ Could not read ${url}: ${errorMsg}`);
+      process.exit(EXIT_ERROR);
+    }
+    if (!isFeed && entry.id == null) {
+      console.error(`❌ yt-dlp reported no video id for ${url}`);
+      process.exit(EXIT_ERROR);
+    }
+
+    // An episode that isn't in the feed is keyed like a feed item without a guid
+    video = {
+      id: isFeed ? feedItemId(url) : String(entry.id),
+      title: entry.title || "Untitled",
+      url: isFeed ? url : entry.webpage_url || url,
+      uploadDate: entry.upload_date ?? undefined,
+      duration: entry.duration != null ? Math.round(entry.duration) : undefined,
+      description: entry.description ?? undefined,
+    };
+  }
+
+  if (!lockSource(config, source.id, "queue add")) process.exit(EXIT_ERROR);
+  const checkpoint = await loadSourceCheckpoint(config, source);
+  const existing = Object.entries(checkpoint.videos).find(
+    ([videoId, record]) => videoId === video.id || record.url === video.url
+  );
+  if (existing) {
+    console.error(`❌ Already in ${source.id} as ${existing[0]} (${existing[1].status})`);
+    process.exit(EXIT_ERROR);
+  }
+
+  checkpoint.videos[video.id] = {
+    status: "pending",
+    title: video.title,
+    url: video.url,
+    uploadDate: video.uploadDate,
+    duration: video.duration,
+    description: video.description,
+  };
+  await saveSourceCheckpoint(config, checkpoint);
+
+  console.log(`✅ Queued ${video.id} in ${source.id}: ${video.title}`);
+  console.log(`   Run 'bulk-summarize summarize --source ${source.id}' to process.`);
+  emitEvent("summary", { command: "queue add", source: source.id, videoId: video.id, title: video.title });
+}
+
+const GROUP_BY = ["source", "tag", "month"] as const;
+type GroupBy = (typeof GROUP_BY)[number];
+
+interface SummaryGroup {
+  key: string;
+  title: string;
+  entries: SummaryEntry[];
+}
+
+/** Split entries into titled groups; with "tag" a video appears under each of its source's tags */
+function groupSummaries(config: Config, entries: SummaryEntry[], groupBy: GroupBy): SummaryGroup[] {
+  const groups = new Map<string, SummaryGroup>();
+  const add = (key: string, title: string, entry: SummaryEntry) => {
+    if (!groups.has(key)) groups.set(key, { key, title, entries: [] });
+    groups.get(key)!.entries.push(entry);
   };
 
-  await Bun.write(configName, JSON.stringify(starterConfig, null, 2));
-  console.log(`✅ Created config: ${configName}`);
-  console.log(`\nNext steps:`);
-  console.log(`  1. Edit ${configName} to add your sources and keywords`);
-  console.log(`  2. Run: bulk-summarize scan`);
-  console.log(`  3. Run: bulk-summarize summarize`);
-}
+  for (const entry of entries) {
+    if (groupBy === "source") {
+      add(entry.source, `Source: ${sourceDisplayName(config, entry.source)}`, entry);
+    } else if (groupBy === "tag") {
+      const tags = config.sources.find((s) => s.id === entry.source)?.tags ?? [];
+      if (tags.length === 0) add("~untagged", "Untagged", entry);
+      for (const tag of tags) add(tag, `Tag: ${tag}`, entry);
+    } else {
+      const month = entry.uploadDate?.replace(/^(\d{4})(\d{2})\d{2}$/, "$1-$2");
+      add(month ?? "~unknown", month ?? "Unknown date", entry);
+    }
+  }
+
+  const keys = [...groups.keys()];
+  if (groupBy === "source") {
+    // Config order
+    const order = config.sources.map((s) => s.id);
+    keys.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  } else if (groupBy === "tag") {
+    keys.sort();
+  } else {
+    keys.sort().reverse();
+    // "~unknown" sorts first in reverse; keep it last
+    if (keys[0] === "~unknown") keys.push(keys.shift()!);
+  }
+  return keys.map((key) => groups.get(key)!);
+}
+
+/** Depends only on the group and video, so links survive regeneration and duplicate titles */
+function summaryAnchor(groupBy: GroupBy, groupKey: string, entry: SummaryEntry): string {
+  const parts = groupBy === "tag" ? [groupKey, entry.source, entry.videoId] : [entry.source, entry.videoId];
+  return parts.join("--").replace(/[^A-Za-z0-9_-]+/g, "-");
+}
+
+async function cmdCombine(options: {
+  output?: string;
+  outputs?: string[];
+  format?: string;
+  source?: string;
+  tag?: string;
+  since?: string;
+  until?: string;
+  groupBy?: string;
+}): Promise<void> {
+  const config = await loadConfig(CONFIG_PATH);
+  const format = options.format ?? "markdown";
+  const groupBy = (options.groupBy ?? "source") as GroupBy;
+  const outputDir = getOutputDir(config);
+
+  if (format !== "markdown" && format !== "html") {
+    console.error(`❌ Unknown format: ${format} (expected markdown or html)`);
+    process.exit(EXIT_ERROR);
+  }
+  if (!GROUP_BY.includes(groupBy)) {
+    console.error(`❌ Unknown --group-by: ${options.groupBy} (expected ${GROUP_BY.join(", ")})`);
+    process.exit(EXIT_ERROR);
+  }
+  for (const [flag, value] of [["--since", options.since], ["--until", options.until]] as const) {
+    if (value !== undefined && !z.iso.date().safeParse(value).success) {
+      console.error(`❌ ${flag} expects a YYYY-MM-DD date, got: ${value}`);
+      process.exit(EXIT_ERROR);
+    }
+  }
+
+  // Which outputs to include, in order; the first configured one by default
+  const outputNames = resolveOutputs(config).map((o) => o.name);
+  const selected = options.outputs ?? [outputNames[0]!];
+  const unknown = selected.filter((name) => !outputNames.includes(name));
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown output: ${unknown.join(", ")}`);
+    console.error(`   Configured outputs: ${outputNames.join(", ")}`);
+    process.exit(EXIT_ERROR);
+  }
+
+  console.log(`📚 Combining summaries...\n`);
+
+  if (!existsSync(outputDir)) {
+    console.log("No summaries directory found.");
+    return;
+  }
+
+  const entries = await collectSummaries(config, selected, {
+    source: options.source,
+    tag: options.tag,
+    since: options.since,
+    until: options.until,
+  });
+
+  if (entries.length === 0) {
+    console.log("No summaries found to combine.");
+    return;
+  }
+
+  if (format === "html") {
+    const siteDir = options.output || COMBINED_SITE_DIR;
+    await writeHtmlSite(config, entries, siteDir);
+    console.log(`✅ Wrote ${entries.length} summaries to site: ${join(siteDir, "index.html")}`);
+    return;
+  }
+
+  const outputFile = options.output || COMBINED_FILE;
+
+  let combined = `# ${config.name} - Video Summaries
+
+Generated: ${new Date().toISOString()}
+
+This document contains ${entries.length} summarized videos.
 
-async function cmdScan(options: { source?: string }): Promise<void> {
-  const config = await loadConfig(CONFIG_PATH);
+---
 
-  console.log(`🔍 Scanning sources for: ${config.name}\n`);
+## Table of Contents
 
-  if (config.keywords.length > 0) {
-    console.log(`Default keywords: ${config.keywords.join(", ")}\n`);
-  }
+`;
 
-  let sources = config.sources.filter((s) => s.enabled !== false);
+  const groups = groupSummaries(config, entries, groupBy);
 
-  if (options.source) {
-    sources = sources.filter(
-      (s) =>
-        s.id === options.source ||
-        s.id.includes(options.source!) ||
-        s.name.toLowerCase().includes(options.source!.toLowerCase())
-    );
-    if (sources.length === 0) {
-      console.error(`❌ No source found matching: ${options.source}`);
-      return;
+  for (const group of groups) {
+    combined += `\n### ${group.title}\n\n`;
+    for (const entry of group.entries) {
+      combined += `- [${entry.title}](#${summaryAnchor(groupBy, group.key, entry)})\n`;
     }
   }
 
-  for (const source of sources) {
-    const checkpoint = await loadSourceCheckpoint(config, source);
+  combined += "\n---\n\n";
 
-    // Use source-specific keywords if defined, otherwise fall back to global
-    const keywords = source.keywords ?? config.keywords;
+  // Add all summaries
+  for (const group of groups) {
+    combined += `\n# ${group.title}\n\n---\n\n`;
 
-    const videos = await scanSource(
-      source,
-      keywords,
-      config.settings.maxVideosPerSource
-    );
+    for (const entry of group.entries) {
+      const [first, ...extras] = entry.outputs;
+      const withoutFrontmatter = first!.content.replace(/^---[\s\S]*?---\n/, "");
+      combined += `<a id="${summaryAnchor(groupBy, group.key, entry)}"></a>\n\n${withoutFrontmatter}`;
 
-    let newCount = 0;
-    for (const video of videos) {
-      if (!checkpoint.videos[video.id]) {
-        checkpoint.videos[video.id] = {
-          status: "pending",
-          title: video.title,
-          url: video.url,
-        };
-        newCount++;
+      // Further outputs for the same video: drop their repeated title/link header
+      for (const extra of extras) {
+        combined += `\n## ${extra.name}\n${summaryBody(extra.content)}`;
       }
+      combined += "\n\n---\n\n";
     }
-
-    checkpoint.lastScanned = new Date().toISOString();
-    console.log(`   Added ${newCount} new videos to queue`);
-    await saveSourceCheckpoint(config, checkpoint);
   }
 
-  console.log(`\n✅ Scan complete! Run 'bulk-summarize summarize' to process.`);
+  await Bun.write(outputFile, combined);
+  console.log(`✅ Combined ${entries.length} summaries into: ${outputFile}`);
 }
 
-async function cmdSummarize(options: {
-  limit?: number;
+async function cmdExport(options: {
+  output?: string;
+  format?: string;
   source?: string;
-  delay?: number;
-  parallel?: number;
+  tag?: string;
+  status?: string[];
+  outputs?: string[];
 }): Promise<void> {
   const config = await loadConfig(CONFIG_PATH);
-  const delay = options.delay ?? 1000;
-  const parallel = options.parallel ?? 1;
-
-  console.log(`📝 Summarizing videos for: ${config.name}`);
-  if (parallel > 1) console.log(`   Parallel: ${parallel} concurrent`);
-  if (delay !== 1000) console.log(`   Delay: ${delay}ms`);
-  console.log();
+  const format = (options.format ?? "jsonl") as ExportFormat;
 
-  let processed = 0;
-  const maxProcess = options.limit || Infinity;
-
-  let sources = config.sources.filter((s) => s.enabled !== false);
+  if (!EXPORT_FORMATS.includes(format)) {
+    console.error(`❌ Unknown format: ${options.format} (expected ${EXPORT_FORMATS.join(", ")})`);
+    process.exit(EXIT_ERROR);
+  }
+  parseStatusFilter(options.status ?? []);
+
+  const outputNames = resolveOutputs(config).map((o) => o.name);
+  const selected = options.outputs ?? outputNames;
+  const unknown = selected.filter((name) => !outputNames.includes(name));
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown output: ${unknown.join(", ")}`);
+    console.error(`   Configured outputs: ${outputNames.join(", ")}`);
+    process.exit(EXIT_ERROR);
+  }
 
+  let sources = config.sources;
   if (options.source) {
-    sources = sources.filter(
-      (s) => s.id === options.source || s.id.includes(options.source!)
-    );
+    sources = sources.filter((s) => s.id === options.source || s.id.includes(options.source!));
+  }
+  if (options.tag) {
+    sources = sources.filter((s) => s.tags?.includes(options.tag!));
   }
 
+  const records: ExportRecord[] = [];
   for (const source of sources) {
-    if (processed >= maxProcess) break;
-
+    if (!existsSync(getSourceCheckpointPath(config, source.id))) continue;
     const checkpoint = await loadSourceCheckpoint(config, source);
-    const pendingVideos = Object.entries(checkpoint.videos)
-      .filter(([_, v]) => v.status === "pending")
-      .slice(0, maxProcess - processed);
-
-    if (pendingVideos.length === 0) continue;
+    records.push(...(await buildExportRecords(config, source, checkpoint, selected, options.status)));
+  }
 
-    console.log(`\n📺 ${source.name}: ${pendingVideos.length} pending`);
+  const data = formatExport(records, format);
 
-    if (parallel > 1) {
-      // Parallel processing
-      for (let i = 0; i < pendingVideos.length; i += parallel) {
-        if (processed >= maxProcess) break;
+  // Without --output the data goes to stdout, so nothing else may be printed there
+  if (!options.output) {
+    process.stdout.write(data);
+    return;
+  }
+  await Bun.write(options.output, data);
+  console.log(`✅ Exported ${records.length} records to: ${options.output}`);
+}
 
-        const batch = pendingVideos.slice(i, Math.min(i + parallel, maxProcess - processed + i));
-        const promises = batch.map(async ([videoId, videoData]) => {
-          const result = await summarizeVideo(
-            { id: videoId, title: videoData.title, url: videoData.url },
-            config,
-            source.id
-          );
-          return { videoId, result };
-        });
+async function cmdExtract(options: { output?: string; format?: string; source?: string; tag?: string }): Promise<void> {
+  const config = await loadConfig(CONFIG_PATH);
+  const format = options.format ?? "csv";
 
-        const results = await Promise.all(promises);
+  if (format !== "csv" && format !== "json") {
+    console.error(`❌ Unknown format: ${format} (expected csv or json)`);
+    process.exit(EXIT_ERROR);
+  }
+  if (!config.settings.extraction) {
+    console.error(`❌ No settings.extraction in ${CONFIG_PATH}`);
+    console.error(`   Add an extraction schema, then run 'bulk-summarize summarize' to fill it in`);
+    process.exit(EXIT_ERROR);
+  }
 
-        for (const { videoId, result } of results) {
-          if (result.success) {
-            checkpoint.videos[videoId].status = "summarized";
-            checkpoint.videos[videoId].processedAt = new Date().toISOString();
-          } else {
-            checkpoint.videos[videoId].status = "error";
-            checkpoint.videos[videoId].error = result.error;
-          }
-          processed++;
-        }
+  let sources = config.sources;
+  if (options.source) {
+    sources = sources.filter((s) => s.id === options.source || s.id.includes(options.source!));
+  }
+  if (options.tag) {
+    sources = sources.filter((s) => s.tags?.includes(options.tag!));
+  }
 
-        await saveSourceCheckpoint(config, checkpoint);
+  const rows: {
+    source: string;
+    videoId: string;
+    title: string;
+    url: string;
+    uploadDate: string | null;
+    fields: Record<string, unknown>;
+  }[] = [];
+  let outdated = 0;
 
-        if (delay > 0 && i + parallel < pendingVideos.length) {
-          await Bun.sleep(delay);
-        }
-      }
-    } else {
-      // Sequential processing
-      for (const [videoId, videoData] of pendingVideos) {
-        if (processed >= maxProcess) break;
-
-        const result = await summarizeVideo(
-          { id: videoId, title: videoData.title, url: videoData.url },
-          config,
-          source.id
-        );
-
-        if (result.success) {
-          checkpoint.videos[videoId].status = "summarized";
-          checkpoint.videos[videoId].processedAt = new Date().toISOString();
-        } else {
-          checkpoint.videos[videoId].status = "error";
-          checkpoint.videos[videoId].error = result.error;
-        }
+  for (const source of sources) {
+    if (!existsSync(getSourceCheckpointPath(config, source.id))) continue;
+    const checkpoint = await loadSourceCheckpoint(config, source);
 
-        await saveSourceCheckpoint(config, checkpoint);
-        processed++;
+    for (const [videoId, record] of Object.entries(checkpoint.videos)) {
+      const file = Bun.file(getExtractionPath(config, source.id, videoId));
+      if (!(await file.exists())) continue;
 
-        if (delay > 0) {
-          await Bun.sleep(delay);
-        }
+      const parsed = ExtractionRecordSchema.safeParse(await file.json().catch(() => undefined));
+      if (!parsed.success) {
+        console.error(`⚠️  Skipping ${source.id}/${videoId}.json: not a valid extraction record`);
+        continue;
       }
+      const extracted = parsed.data;
+      if (extracted.schema_hash !== extractionHash(config.settings.extraction)) outdated++;
+      const date = record.uploadDate?.match(/^(\d{4})(\d{2})(\d{2})$/);
+      rows.push({
+        source: source.id,
+        videoId,
+        title: record.title,
+        url: record.url,
+        uploadDate: date ? `${date[1]}-${date[2]}-${date[3]}` : null,
+        fields: extracted.data,
+      });
     }
   }
+  rows.sort((a, b) => a.source.localeCompare(b.source) || a.videoId.localeCompare(b.videoId));
+
+  let data: string;
+  if (format === "json") {
+    data = JSON.stringify(rows, null, 2) + "\n";
+  } else {
+    // Schema properties first, in schema order, then anything else the records have
+    const schemaKeys = Object.keys(config.settings.extraction.schema.properties ?? {});
+    const fieldKeys = [...new Set([...schemaKeys, ...rows.flatMap((r) => Object.keys(r.fields))])];
+    const header = ["source", "videoId", "title", "url", "uploadDate", ...fieldKeys];
+    const lines = rows.map((r) =>
+      [
+        r.source,
+        r.videoId,
+        r.title,
+        r.url,
+        r.uploadDate,
+        ...fieldKeys.map((key) => {
+          const value = r.fields[key];
+          const isList = Array.isArray(value) && value.every((v) => typeof v !== "object" || v === null);
+          return value !== null && typeof value === "object" && !isList ? JSON.stringify(value) : value;
+        }),
+      ]
+        .map(csvField)
+        .join(",")
+    );
+    data = [header.join(","), ...lines].join("\n") + "\n";
+  }
 
-  console.log(`\n✅ Processed ${processed} videos`);
+  // Without --output the table goes to stdout, so notes go to stderr
+  if (outdated > 0) {
+    console.error(`⚠️  ${outdated} records were extracted with an older schema; 'bulk-summarize summarize' updates them`);
+  }
+  if (!options.output) {
+    process.stdout.write(data);
+    return;
+  }
+  await Bun.write(options.output, data);
+  console.log(`✅ Extracted ${rows.length} records to: ${options.output}`);
 }
 
-async function cmdCombine(options: { output?: string }): Promise<void> {
+async function cmdSearch(
+  query: string | undefined,
+  options: { source?: string; tag?: string; limit?: number; json?: boolean }
+): Promise<void> {
   const config = await loadConfig(CONFIG_PATH);
-  const outputFile = options.output || COMBINED_FILE;
-  const outputDir = getOutputDir(config);
-
-  console.log(`📚 Combining summaries...\n`);
 
-  if (!existsSync(outputDir)) {
-    console.log("No summaries directory found.");
-    return;
+  const terms = [...new Set(searchTokens(query ?? ""))];
+  if (terms.length === 0) {
+    console.error(`❌ Usage: bulk-summarize search "<query>"`);
+    process.exit(EXIT_ERROR);
   }
 
-  const summaryFiles: { source: string; path: string }[] = [];
+  const { index, indexed, removed } = await updateSearchIndex(config);
+  if (!options.json && (indexed > 0 || removed > 0)) {
+    console.log(`🗂  Search index updated: ${indexed} indexed, ${removed} removed\n`);
+  }
 
-  // Walk source directories
-  const sourceDirs = readdirSync(outputDir, { withFileTypes: true })
-    .filter((d) => d.isDirectory())
-    .map((d) => d.name);
+  const sources = new Map(config.sources.map((s) => [s.id, s]));
+  const hits = rankSearch(index, terms, (doc) => {
+    const source = sources.get(doc.source);
+    if (options.source && !(doc.source === options.source || doc.source.includes(options.source))) return false;
+    if (options.tag && !source?.tags?.includes(options.tag)) return false;
+    return true;
+  }).slice(0, options.limit ?? 10);
+
+  const results = await Promise.all(
+    hits.map(async (hit) => {
+      const content = await Bun.file(join(getOutputDir(config), hit.key)).text();
+      return { ...hit, snippet: searchSnippet(summaryBody(content), hit.matched) };
+    })
+  );
 
-  for (const sourceId of sourceDirs) {
-    const sourceDir = join(outputDir, sourceId);
-    const files = readdirSync(sourceDir)
-      .filter((f) => f.endsWith(".md") && !f.startsWith("."))
-      .map((f) => ({ source: sourceId, path: join(sourceDir, f) }));
-    summaryFiles.push(...files);
+  if (options.json) {
+    for (const r of results) {
+      console.log(
+        JSON.stringify({
+          source: r.doc.source,
+          videoId: r.doc.videoId,
+          output: r.doc.output,
+          title: r.doc.title,
+          url: r.doc.url ?? null,
+          path: join(getOutputDir(config), r.key),
+          score: Number(r.score.toFixed(4)),
+          matched: r.matched,
+          snippet: r.snippet.text,
+          highlights: r.snippet.highlights,
+        })
+      );
+    }
+    return;
   }
 
-  if (summaryFiles.length === 0) {
-    console.log("No summaries found to combine.");
+  if (results.length === 0) {
+    console.log(`No summaries match "${query}".`);
     return;
   }
 
-  // Sort by source then filename
-  summaryFiles.sort((a, b) => {
-    if (a.source !== b.source) return a.source.localeCompare(b.source);
-    return a.path.localeCompare(b.path);
+  console.log(`🔎 ${results.length} results for "${query}"\n`);
+  results.forEach((r, i) => {
+    const output = r.doc.output === DEFAULT_OUTPUT ? "" : ` [${r.doc.output}]`;
+    console.log(`${i + 1}. ${r.doc.title}${output} — ${sourceDisplayName(config, r.doc.source)}`);
+    if (r.doc.url) console.log(`   ${r.doc.url}`);
+    console.log(`   ${highlightSnippet(r.snippet)}`);
+    console.log(`   ${join(getOutputDir(config), r.key)}\n`);
   });
+}
+
+async function cmdDigest(
+  question: string | undefined,
+  options: { source?: string; tag?: string; limit?: number; output?: string }
+): Promise<void> {
+  const config = await loadConfig(CONFIG_PATH);
+
+  const terms = [...new Set(searchTokens(question ?? ""))].filter((t) => !DIGEST_STOPWORDS.has(t));
+  if (!question?.trim() || terms.length === 0) {
+    console.error(`❌ Usage: bulk-summarize digest "<question or topic>"`);
+    process.exit(EXIT_ERROR);
+  }
+  requireBackendCommand(config);
+
+  console.log(`📖 Digest: ${question}\n`);
+
+  // Relevance comes from the search index, over each video's primary output only
+  const primaryOutput = resolveOutputs(config)[0]!.name;
+  const { index } = await updateSearchIndex(config);
+  const sourcesById = new Map(config.sources.map((s) => [s.id, s]));
+  const hits = rankSearch(index, terms, (doc) => {
+    if (doc.output !== primaryOutput) return false;
+    if (options.source && !(doc.source === options.source || doc.source.includes(options.source))) return false;
+    if (options.tag && !sourcesById.get(doc.source)?.tags?.includes(options.tag)) return false;
+    return true;
+  }).slice(0, options.limit ?? 25);
+
+  if (hits.length === 0) {
+    console.log("No summaries match that question.");
+    return;
+  }
 
-  // Pre-load all file contents in parallel
-  const fileContents = await Promise.all(
-    summaryFiles.map(async ({ path }) => Bun.file(path).text())
+  const sources: DigestSource[] = await Promise.all(
+    hits.map(async (hit, i) => {
+      const content = await Bun.file(join(getOutputDir(config), hit.key)).text();
+      return {
+        ref: i + 1,
+        title: hit.doc.title,
+        url: hit.doc.url ?? "",
+        sourceName: sourceDisplayName(config, hit.doc.source),
+        body: summaryBody(content),
+      };
+    })
   );
-  const contentMap = new Map(summaryFiles.map(({ path }, i) => [path, fileContents[i]]));
+  console.log(`🔎 Selected ${sources.length} relevant summaries\n`);
 
-  let combined = `# ${config.name} - Video Summaries
+  let report: string;
+  try {
+    report = await synthesizeDigest(config, question, sources);
+  } catch (error: any) {
+    console.error(`❌ Digest failed: ${error.message.substring(0, 200)}`);
+    process.exit(EXIT_ERROR);
+  }
 
-Generated: ${new Date().toISOString()}
+  const sourceList = sources
+    .map((s) => `${s.ref}. [${s.title}](${s.url}) — ${s.sourceName}`)
+    .join("\n");
+  const outputFile = options.output || DIGEST_FILE;
+  await Bun.write(
+    outputFile,
+    `# ${question}
 
-This document contains ${summaryFiles.length} summarized videos.
+Generated: ${new Date().toISOString()} from ${sources.length} video summaries
 
 ---
 
-## Table of Contents
+${report.trim()}
 
-`;
+---
 
-  // Group by source in TOC
-  let currentSource = "";
-  for (const { source, path } of summaryFiles) {
-    if (source !== currentSource) {
-      currentSource = source;
-      const sourceName = config.sources.find((s) => s.id === source)?.name || source;
-      combined += `\n### ${sourceName}\n\n`;
-    }
+## Sources
 
-    const content = contentMap.get(path)!;
-    const titleMatch = content.match(/^# (.+)$/m);
-    const title = titleMatch ? titleMatch[1] : basename(path);
-    const anchor = title.toLowerCase().replace(/[^a-z0-9]+/g, "-");
-    combined += `- [${title}](#${anchor})\n`;
-  }
+${sourceList}
+`
+  );
+  console.log(`\n✅ Digest written to: ${outputFile}`);
+}
 
-  combined += "\n---\n\n";
+async function cmdWatch(options: {
+  once?: boolean;
+  delay?: number;
+  parallel?: number;
+  rpm?: number;
+}): Promise<void> {
+  // First signal: finish the videos in flight, then exit; a second one exits at once
+  let wake: () => void = () => {};
+  onShutdownSignal = (exitCode) => {
+    if (shutdownRequested) process.exit(exitCode);
+    shutdownRequested = true;
+    console.log(`\n🛑 Stopping after the current step...`);
+    wake();
+  };
 
-  // Add all summaries
-  currentSource = "";
-  for (const { source, path } of summaryFiles) {
-    if (source !== currentSource) {
-      currentSource = source;
-      const sourceName = config.sources.find((s) => s.id === source)?.name || source;
-      combined += `\n# Source: ${sourceName}\n\n---\n\n`;
+  console.log(`👀 Watching: ${(await loadConfig(CONFIG_PATH)).name} (Ctrl+C or SIGTERM to stop)\n`);
+
+  while (!shutdownRequested) {
+    // Re-read every cycle so config edits apply without a restart
+    const config = await loadConfig(CONFIG_PATH);
+    const sources = config.sources.filter((s) => s.enabled !== false);
+    const now = Date.now();
+    const schedule = await Promise.all(sources.map(async (s) => ({ source: s, at: await nextScanAt(config, s) })));
+    const due = schedule.filter((s) => s.at <= now).map((s) => s.source);
+
+    if (due.length > 0) {
+      const startedAt = new Date();
+      console.log(`⏰ ${startedAt.toLocaleString()}: checking ${due.map((s) => s.name).join(", ")}\n`);
+
+      await cmdScan({ sourceIds: due.map((s) => s.id), queuedBy: "watch" });
+      // Includes videos an earlier cycle queued but didn't finish (signal, crash, budget)
+      const queued = await watchQueue(config, due);
+      const processed =
+        queued.length > 0 && !shutdownRequested
+          ? await cmdSummarize({ only: queued, delay: options.delay, parallel: options.parallel, rpm: options.rpm })
+          : [];
+
+      let combined: string | undefined;
+      const combine = config.settings.watch.combine;
+      if (combine && processed.some((item) => item.record.status === "summarized")) {
+        const { format, output } = combine === true ? { format: "markdown", output: undefined } : combine;
+        console.log();
+        await cmdCombine({ format, output });
+        combined = output || (format === "html" ? join(COMBINED_SITE_DIR, "index.html") : COMBINED_FILE);
+      }
+
+      const notification = buildWatchNotification(config, startedAt, due.map((s) => s.id), processed, combined);
+      const { event, ...fields } = notification;
+      emitEvent(event, fields);
+      if (config.settings.watch.webhookOn === "cycle" || processed.length > 0) {
+        await sendWebhook(config, notification);
+      }
+      // Let other commands use these sources until the next cycle
+      releaseSourceLocks();
     }
 
-    const content = contentMap.get(path)!;
-    const withoutFrontmatter = content.replace(/^---[\s\S]*?---\n/, "");
-    combined += withoutFrontmatter;
-    combined += "\n\n---\n\n";
+    if (options.once || shutdownRequested) break;
+
+    // Sleep until the next source is due (at least a minute, so a failing scan can't spin)
+    const next = Math.min(
+      ...(await Promise.all(sources.map((s) => nextScanAt(config, s)))),
+      Date.now() + config.settings.watch.interval * 1000
+    );
+    const wait = Math.max(next - Date.now(), 60_000);
+    console.log(`\n💤 Next check at ${new Date(Date.now() + wait).toLocaleString()}\n`);
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, wait);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
   }
 
-  await Bun.write(outputFile, combined);
-  console.log(`✅ Combined ${summaryFiles.length} summaries into: ${outputFile}`);
+  console.log(`👋 Watch stopped`);
 }
 
 async function cmdStatus(): Promise<void> {
   if (!existsSync(CONFIG_PATH)) {
     console.error(`❌ Config not found: ${CONFIG_PATH}`);
     console.error(`   Run 'bulk-summarize init' to create one`);
-    return;
+    emitEvent("error", { kind: "config", message: `Config not found: ${CONFIG_PATH}` });
+    process.exit(EXIT_CONFIG);
   }
 
   const config = await loadConfig(CONFIG_PATH);
@@ -597,6 +5474,10 @@ async function cmdStatus(): Promise<void> {
   let totalPending = 0;
   let totalSummarized = 0;
   let totalErrors = 0;
+  let totalSkipped = 0;
+  let totalStale = 0;
+  let totalUsage: Usage | undefined;
+  let totalTranscriptChars = 0;
 
   for (const source of config.sources) {
     const enabled = source.enabled !== false;
@@ -604,6 +5485,7 @@ async function cmdStatus(): Promise<void> {
 
     if (!existsSync(checkpointPath)) {
       console.log(`${enabled ? "○" : "⏸"} ${source.name}: Not scanned`);
+      emitEvent("source.status", { source: source.id, name: source.name, enabled, lastScanned: null });
       continue;
     }
 
@@ -611,10 +5493,29 @@ async function cmdStatus(): Promise<void> {
     const pending = Object.values(checkpoint.videos).filter((v) => v.status === "pending").length;
     const summarized = Object.values(checkpoint.videos).filter((v) => v.status === "summarized").length;
     const errors = Object.values(checkpoint.videos).filter((v) => v.status === "error").length;
+    const skipped = Object.values(checkpoint.videos).filter((v) => v.status === "skipped").length;
+    const inProgress = Object.values(checkpoint.videos).filter((v) => v.status === "in-progress").length;
+    const missingOutputs = Object.entries(checkpoint.videos).filter(
+      ([videoId, v]) => v.status === "summarized" && pendingOutputs(config, source, videoId, v).length > 0
+    ).length;
+    const stale = Object.entries(checkpoint.videos).filter(
+      ([videoId, v]) => v.status === "summarized" && staleOutputs(config, source, videoId, v).length > 0
+    ).length;
+    const toExtract = Object.entries(checkpoint.videos).filter(
+      ([videoId, v]) => v.status === "summarized" && needsExtraction(config, source, videoId, v)
+    ).length;
+    totalStale += stale;
+    let sourceUsage: Usage | undefined;
+    for (const record of Object.values(checkpoint.videos)) {
+      if (record.usage) sourceUsage = addUsage(sourceUsage, record.usage);
+      totalTranscriptChars += record.usage?.transcriptChars ?? 0;
+    }
+    if (sourceUsage) totalUsage = addUsage(totalUsage, sourceUsage);
 
     totalPending += pending;
     totalSummarized += summarized;
     totalErrors += errors;
+    totalSkipped += skipped;
 
     const lastScanned = checkpoint.lastScanned
       ? new Date(checkpoint.lastScanned).toLocaleDateString()
@@ -623,43 +5524,104 @@ async function cmdStatus(): Promise<void> {
     console.log(
       `${enabled ? "●" : "⏸"} ${source.name}: ${summarized} done, ${pending} pending` +
         (errors > 0 ? `, ${errors} errors` : "") +
+        (skipped > 0 ? `, ${skipped} skipped` : "") +
+        (inProgress > 0 ? `, ${inProgress} in progress` : "") +
+        (missingOutputs > 0 ? `, ${missingOutputs} missing outputs` : "") +
+        (stale > 0 ? `, ${stale} stale` : "") +
+        (toExtract > 0 ? `, ${toExtract} to extract` : "") +
         ` (scanned: ${lastScanned})`
     );
+    emitEvent("source.status", {
+      source: source.id,
+      name: source.name,
+      enabled,
+      lastScanned: checkpoint.lastScanned ?? null,
+      summarized,
+      pending,
+      errors,
+      skipped,
+      inProgress,
+      missingOutputs,
+      stale,
+      toExtract,
+      usage: sourceUsage,
+    });
   }
+  emitEvent("summary", {
+    command: "status",
+    summarized: totalSummarized,
+    pending: totalPending,
+    errors: totalErrors,
+    skipped: totalSkipped,
+    stale: totalStale,
+    usage: totalUsage,
+    transcriptChars: totalTranscriptChars,
+  });
 
   console.log(
     `\n📈 Total: ${totalSummarized} summarized, ${totalPending} pending` +
-      (totalErrors > 0 ? `, ${totalErrors} errors` : "")
+      (totalErrors > 0 ? `, ${totalErrors} errors` : "") +
+      (totalSkipped > 0 ? `, ${totalSkipped} skipped` : "")
   );
+  if (totalUsage) {
+    console.log(`💰 Usage: ${formatUsage(totalUsage)}`);
+    if (totalTranscriptChars > 0) {
+      console.log(`   Transcripts: ${totalTranscriptChars.toLocaleString()} characters`);
+    }
+  }
+  if (totalErrors > 0) {
+    console.log(`   Run 'bulk-summarize retry' to re-queue retryable errors`);
+  }
+  if (totalStale > 0) {
+    console.log(`   ${totalStale} summaries are stale (prompt, model, length or version changed).`);
+    console.log(`   Run 'bulk-summarize summarize --stale' to regenerate them`);
+  }
 }
 
-async function cmdReset(target?: string): Promise<void> {
+/**
+ * Forget checkpoint records so the next scan finds them again: all of them, or
+ * only those with the given statuses. Summary files are left alone.
+ */
+async function cmdReset(target: string | undefined, options: { status?: string[] }): Promise<void> {
   const config = await loadConfig(CONFIG_PATH);
+  const statuses = parseStatusFilter(options.status ?? []);
+  const sources = target ? [findConfiguredSource(config, target, "reset")] : config.sources;
 
-  if (target) {
-    const checkpointPath = getSourceCheckpointPath(config, target);
-    if (existsSync(checkpointPath)) {
-      const checkpoint = await loadSourceCheckpoint(config, { id: target, name: target, url: "" });
-      checkpoint.videos = {};
-      checkpoint.lastScanned = undefined;
-      await saveSourceCheckpoint(config, checkpoint);
-      console.log(`✅ Reset: ${target}`);
-    } else {
-      console.log(`❌ Source not found or not scanned: ${target}`);
-    }
-  } else {
-    // Reset all sources
-    for (const source of config.sources) {
-      const checkpointPath = getSourceCheckpointPath(config, source.id);
-      if (existsSync(checkpointPath)) {
-        const checkpoint = await loadSourceCheckpoint(config, source);
-        checkpoint.videos = {};
-        checkpoint.lastScanned = undefined;
-        await saveSourceCheckpoint(config, checkpoint);
+  if (target && !existsSync(getSourceCheckpointPath(config, target))) {
+    console.error(`❌ Source not scanned yet: ${target}`);
+    process.exit(EXIT_ERROR);
+  }
+
+  if (statuses.length > 0) {
+    const { changed: removed } = await updateVideoRecords(
+      config,
+      sources,
+      "reset",
+      (_videoId, record) => statuses.includes(record.status),
+      (checkpoint, videoId) => {
+        delete checkpoint.videos[videoId];
+        // Without a newest marker the next scan lists the whole window again;
+        // the backfill position is kept so history isn't paged through twice
+        if (checkpoint.scan) checkpoint.scan.newest = undefined;
       }
+    );
+    console.log(`✅ Reset ${removed.length} ${statuses.join("/")} videos${target ? ` in ${target}` : ""}`);
+    return;
+  }
+
+  for (const source of sources) {
+    if (!existsSync(getSourceCheckpointPath(config, source.id))) continue;
+    if (!lockSource(config, source.id, "reset")) {
+      if (target) process.exit(EXIT_ERROR);
+      continue;
     }
-    console.log(`✅ Reset all source checkpoints`);
+    const checkpoint = await loadSourceCheckpoint(config, source);
+    checkpoint.videos = {};
+    checkpoint.lastScanned = undefined;
+    checkpoint.scan = undefined;
+    await saveSourceCheckpoint(config, checkpoint);
   }
+  console.log(target ? `✅ Reset: ${target}` : `✅ Reset all source checkpoints`);
 }
 
 async function cmdList(): Promise<void> {
@@ -679,6 +5641,181 @@ async function cmdList(): Promise<void> {
   }
 }
 
+async function cmdAdd(url: string | undefined, options: { tags?: string[]; keywords?: string[] }): Promise<void> {
+  if (!url || !URL.canParse(url)) {
+    console.error(`❌ Usage: bulk-summarize add <url> [--tags a,b] [--keywords "<query>"]...`);
+    process.exit(EXIT_ERROR);
+  }
+  const config = await loadConfig(CONFIG_PATH);
+
+  const existing = config.sources.find((s) => s.url.replace(/\/$/, "") === url.replace(/\/$/, ""));
+  if (existing) {
+    console.error(`❌ Already configured as: ${existing.id}`);
+    process.exit(EXIT_ERROR);
+  }
+
+  console.log(`🔍 Resolving: ${url}`);
+  let probed: ProbedSource;
+  try {
+    probed = await probeSource(url);
+  } catch (error: any) {
+    const errorMsg = error.stderr?.toString().trim() || error.message;
+    console.error(`❌ Could not resolve ${url}: ${errorMsg}`);
+    process.exit(EXIT_ERROR);
+  }
+
+  const source: SourceInput = {
+    id: uniqueSourceId(probed.name, config.sources.map((s) => s.id)),
+    name: probed.name,
+    url,
+    type: probed.type,
+    enabled: true,
+    ...(options.tags?.length ? { tags: options.tags } : {}),
+    ...(options.keywords?.length ? { keywords: options.keywords } : {}),
+  };
+  const result = SourceSchema.safeParse(source);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      console.error(`❌ ${issue.message}`);
+    }
+    process.exit(EXIT_ERROR);
+  }
+
+  try {
+    await editConfigFile(CONFIG_PATH, { kind: "add", source });
+  } catch (error: any) {
+    console.error(`❌ Could not update ${CONFIG_PATH}: ${error.message}`);
+    process.exit(EXIT_ERROR);
+  }
+
+  console.log(`✅ Added source: ${source.id}`);
+  console.log(`   Name: ${source.name}`);
+  console.log(`   Type: ${source.type}`);
+  if (source.tags) console.log(`   Tags: ${source.tags.join(", ")}`);
+  if (source.keywords) console.log(`   Keywords: ${source.keywords.join(", ")}`);
+  console.log(`\nRun 'bulk-summarize scan -s ${source.id}' to find its videos.`);
+  emitEvent("summary", { command: "add", source });
+}
+
+function findConfiguredSource(config: Config, id: string | undefined, command: string): Source {
+  if (!id) {
+    console.error(`❌ Usage: bulk-summarize ${command} <source-id>`);
+    process.exit(EXIT_ERROR);
+  }
+  const source = config.sources.find((s) => s.id === id);
+  if (!source) {
+    console.error(`❌ Source not found: ${id}`);
+    console.error(`   Configured: ${config.sources.map((s) => s.id).join(", ")}`);
+    process.exit(EXIT_ERROR);
+  }
+  return source;
+}
+
+async function cmdSetEnabled(id: string | undefined, enabled: boolean): Promise<void> {
+  const config = await loadConfig(CONFIG_PATH);
+  const source = findConfiguredSource(config, id, enabled ? "enable" : "disable");
+
+  if (source.enabled === enabled) {
+    console.log(`✅ ${source.id} is already ${enabled ? "enabled" : "disabled"}`);
+    return;
+  }
+  try {
+    await editConfigFile(CONFIG_PATH, { kind: "set-enabled", id: source.id, enabled });
+  } catch (error: any) {
+    console.error(`❌ Could not update ${CONFIG_PATH}: ${error.message}`);
+    process.exit(EXIT_ERROR);
+  }
+  console.log(enabled ? `▶️  Enabled: ${source.id}` : `⏸  Disabled: ${source.id} (its summaries are kept)`);
+  emitEvent("summary", { command: enabled ? "enable" : "disable", source: source.id });
+}
+
+async function cmdRemove(id: string | undefined, options: { purge?: boolean }): Promise<void> {
+  const config = await loadConfig(CONFIG_PATH);
+  const source = findConfiguredSource(config, id, "remove");
+  const dir = getSourceDir(config, source.id);
+
+  // Don't delete files out from under a running summarize
+  if (options.purge && existsSync(dir) && !lockSource(config, source.id, "remove")) {
+    process.exit(EXIT_ERROR);
+  }
+  try {
+    await editConfigFile(CONFIG_PATH, { kind: "remove", id: source.id });
+  } catch (error: any) {
+    console.error(`❌ Could not update ${CONFIG_PATH}: ${error.message}`);
+    process.exit(EXIT_ERROR);
+  }
+  console.log(`🗑️  Removed source: ${source.id}`);
+
+  if (options.purge) {
+    releaseSourceLocks();
+    rmSync(dir, { recursive: true, force: true });
+    console.log(`   Deleted ${dir}/`);
+  } else if (existsSync(dir)) {
+    console.log(`   Its summaries are still in ${dir}/ (remove --purge deletes them)`);
+  }
+  emitEvent("summary", { command: "remove", source: source.id, purged: options.purge === true });
+}
+
+async function cmdSchema(options: { output?: string }): Promise<void> {
+  // The input side of the schemas: defaults are optional, durations may be strings
+  const schema = {
+    ...z.toJSONSchema(ConfigSchema, { io: "input", unrepresentable: "any" }),
+    title: "bulk-summarize config",
+  };
+  const data = JSON.stringify(schema, null, 2) + "\n";
+
+  if (!options.output) {
+    process.stdout.write(data);
+    return;
+  }
+  await Bun.write(options.output, data);
+  console.log(`✅ Wrote JSON Schema to: ${options.output}`);
+  console.log(`   Reference it from the config with "$schema": "./${basename(options.output)}"`);
+}
+
+/** Keys the schemas don't know (usually typos), which parsing silently drops */
+function unknownConfigKeys(raw: unknown): string[] {
+  const unknown = (value: unknown, known: object, path: string) =>
+    isJsonObject(value)
+      ? Object.keys(value)
+          .filter((key) => !(key in known))
+          .map((key) => path + key)
+      : [];
+  if (!isJsonObject(raw)) return [];
+
+  return [
+    ...unknown(raw, ConfigSchema.shape, ""),
+    ...unknown(raw.settings, SettingsSchema.shape, "settings."),
+    ...(Array.isArray(raw.sources)
+      ? raw.sources.flatMap((source: unknown, i: number) => unknown(source, SourceSchema.shape, `sources.${i}.`))
+      : []),
+  ];
+}
+
+async function cmdValidate(): Promise<void> {
+  // Exits with EXIT_CONFIG and the issues if the config doesn't load
+  const config = await loadConfig(CONFIG_PATH);
+  const warnings = unknownConfigKeys(await readConfigFile(CONFIG_PATH)).map((key) => `Unknown key ignored: ${key}`);
+  const enabled = config.sources.filter((s) => s.enabled !== false);
+  const { backend } = config.settings;
+
+  console.log(`✅ Config is valid: ${CONFIG_PATH}`);
+  console.log(`   Project: ${config.name}`);
+  console.log(`   Sources: ${config.sources.length} (${enabled.length} enabled)`);
+  console.log(`   Outputs: ${resolveOutputs(config).map((o) => o.name).join(", ")}`);
+  console.log(`   Backend: ${backend.type === "openai" ? `openai (${backend.model} at ${backend.baseUrl})` : backend.command.join(" ")}`);
+  for (const warning of warnings) {
+    console.log(`⚠️  ${warning}`);
+  }
+  emitEvent("summary", {
+    command: "validate",
+    config: CONFIG_PATH,
+    sources: config.sources.length,
+    enabled: enabled.length,
+    warnings,
+  });
+}
+
 // ============================================================================
 // CLI Parser
 // ============================================================================
@@ -691,28 +5828,80 @@ Usage: bulk-summarize [options] <command> [args]
 
 Commands:
   init [name]              Create a starter config file
-  scan                     Scan sources for videos matching keywords
+  scan                     Scan sources for new videos matching keywords (stops at known ones;
+                           --full lists the whole window, --backfill pages through the history)
   summarize                Summarize pending videos
   combine                  Combine all summaries into one document
+  export                   Export summaries with metadata as JSONL, JSON or CSV
+  extract                  Table of the structured fields (settings.extraction) as CSV or JSON
+  search <query>           Full-text search over summaries (ranked, with snippets)
+  digest <question>        Synthesize a cited report from the relevant summaries
+  watch                    Scan and summarize new videos on a schedule (settings.watch)
   status                   Show progress for all sources
   list                     List configured sources
-  reset [source]           Reset checkpoint (all or specific source)
+  add <url>                Add a channel, playlist or feed (name and type resolved via yt-dlp)
+  remove <source-id>       Remove a source from the config (--purge also deletes its summaries)
+  enable <source-id>       Enable a source
+  disable <source-id>      Disable a source (its summaries are kept)
+  validate                 Check the config without running anything
+  doctor                   Check dependencies and that checkpoints match the files on disk
+  schema                   Print a JSON Schema for the config file (for editor autocompletion)
+  transcripts              Fetch and cache transcripts without summarizing
+  retry                    Re-queue videos that failed with a retryable error
+  queue list               List pending videos (--status for others) with date and duration
+  queue add <video-url>    Add one video to a source's queue (needs --source)
+  skip <video-id>...       Mark videos as skipped
+  requeue <video-id>...    Put videos back to pending (or all with --status);
+                           summarized ones have their summaries deleted
+  reset [source]           Reset checkpoint (all or specific source; --status to
+                           forget only videos with those statuses)
   help                     Show this help message
 
 Options:
-  -c, --config <file>      Config file (default: bulk-summarize.json)
+  -c, --config <file>      Config file, JSON or YAML (default: bulk-summarize.json, .yaml or .yml)
   -o, --output-dir <dir>   Output directory (overrides config)
   -s, --source <id>        Target specific source by ID
   -n, --limit <n>          Limit number of videos to process
+                           (search: results, default 10; digest: summaries used, default 25;
+                           scan --backfill: items listed per source in this run)
   -d, --delay <ms>         Delay between videos in ms (default: 1000)
   -p, --parallel <n>       Number of concurrent summarizations (default: 1)
-  --output <file>          Output file for combine command
+  --stale                  Regenerate summaries whose prompt/model/length changed
+  --full                   scan: list all maxVideosPerSource items, even past known videos
+  --backfill               scan: continue listing older videos where the last backfill stopped
+  --rpm <n>                Max summarize requests per minute across all workers
+  --max-cost <usd>         Stop summarize once the estimated cost reaches this (settings.prices)
+  --max-minutes <n>        Stop summarize after this many minutes
+  --output <file>          Output file for combine/export/extract/digest/schema (combine html: site
+                           directory; export/extract/schema default: stdout; digest default: digest.md)
+  --outputs <a,b>          Outputs to include in combine (default: the first configured) or export (default: all)
+  --format <fmt>           combine: markdown (default) or html (static site); export: jsonl (default), json, csv;
+                           extract: csv (default) or json
+  --tag <tag>              Only combine/export/extract/search/digest sources with this tag
+  --json                   Print NDJSON events on stdout (progress text moves to stderr);
+                           search: one JSON object per result
+  --once                   watch: run one cycle for the due sources, then exit
+  --since <date>           combine: only videos uploaded on or after YYYY-MM-DD
+  --until <date>           combine: only videos uploaded on or before YYYY-MM-DD
+  --group-by <key>         combine: group by source (default), tag or month
+  --status <a,b>           Only export/list/requeue/reset videos with these statuses
+                           (pending, summarized, skipped, error, in-progress)
+  --tags <a,b>             add: tags for the new source
+  --keywords <query>       add: a keyword query for the new source (repeat for more)
+  --purge                  remove: also delete the source's output directory
+  --fix                    doctor: repair what it can
+  --kind <kind>            Only retry this error kind (rate-limit, model-error, unknown)
 
 Output Structure:
   summaries/
+    .search-index.json     # Index for the search command
     source-id/
       .checkpoint.json     # Tracks pending/done for this source
+      .lock                # Present while a run is working on this source
       video-id-1.md        # Individual summaries
+      video-id-1.quotes.md # Extra outputs (settings.outputs)
+      video-id-1.transcript.txt  # Cached transcript
+      video-id-1.json      # Structured fields (settings.extraction)
       video-id-2.md
     another-source/
       .checkpoint.json
@@ -720,11 +5909,29 @@ Output Structure:
 
 Examples:
   bulk-summarize init
+  bulk-summarize add https://www.youtube.com/@Fireship --tags tech --keywords "react OR vue"
   bulk-summarize scan
   bulk-summarize scan -s my-podcast
   bulk-summarize summarize -n 10
   bulk-summarize summarize -p 3 -d 500    # 3 parallel, 500ms delay
+  bulk-summarize summarize --max-cost 2 --max-minutes 30
+  bulk-summarize retry --kind rate-limit
   bulk-summarize combine --output notes.md
+  bulk-summarize combine --format html --output site
+  bulk-summarize combine --tag ai --since 2024-01-01 --group-by month
+  bulk-summarize search "react server components" --tag ai
+  bulk-summarize digest "What are the main arguments for RSC?" --output rsc.md
+  bulk-summarize watch -p 2
+  bulk-summarize export --format csv --status summarized --output summaries.csv
+  bulk-summarize summarize --json | jq -c 'select(.event == "video.failed")'
+
+Exit Codes:
+  0    Success
+  1    Error (bad arguments, corrupt checkpoint, ...)
+  2    Config file missing or invalid
+  3    Required command (yt-dlp, summarize) not installed
+  4    Finished, but some sources or videos failed
+  130  Interrupted (Ctrl+C); 143 on SIGTERM
 
 Dependencies:
   - bun: https://bun.sh
@@ -741,12 +5948,33 @@ interface ParsedArgs {
   limit?: number;
   output?: string;
   target?: string;
+  targets: string[]; // every argument after the command (skip, requeue, queue)
   delay?: number;
   parallel?: number;
+  kind?: string;
+  rpm?: number;
+  outputs?: string[];
+  stale?: boolean;
+  format?: string;
+  tag?: string;
+  status?: string[];
+  since?: string;
+  until?: string;
+  groupBy?: string;
+  json?: boolean;
+  once?: boolean;
+  tags?: string[];
+  keywords?: string[];
+  purge?: boolean;
+  fix?: boolean;
+  backfill?: boolean;
+  full?: boolean;
+  maxCost?: number;
+  maxMinutes?: number;
 }
 
 function parseArgs(args: string[]): ParsedArgs {
-  const result: ParsedArgs = { command: "help" };
+  const result: ParsedArgs = { command: "help", targets: [] };
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -765,6 +5993,51 @@ function parseArgs(args: string[]): ParsedArgs {
       result.delay = parseInt(args[++i]);
     } else if (arg === "-p" || arg === "--parallel") {
       result.parallel = parseInt(args[++i]);
+    } else if (arg === "--max-cost") {
+      result.maxCost = parseFloat(args[++i]!);
+    } else if (arg === "--max-minutes") {
+      result.maxMinutes = parseFloat(args[++i]!);
+    } else if (arg === "--once") {
+      result.once = true;
+    } else if (arg === "--json") {
+      result.json = true;
+    } else if (arg === "--since") {
+      result.since = args[++i];
+    } else if (arg === "--until") {
+      result.until = args[++i];
+    } else if (arg === "--group-by") {
+      result.groupBy = args[++i];
+    } else if (arg === "--tags") {
+      result.tags = args[++i]!.split(",").map((tag) => tag.trim()).filter(Boolean);
+    } else if (arg === "--keywords") {
+      // One query per flag: queries can contain commas (phrases, /a{1,2}/)
+      result.keywords = [...(result.keywords ?? []), args[++i]!.trim()].filter(Boolean);
+    } else if (arg === "--purge") {
+      result.purge = true;
+    } else if (arg === "--fix") {
+      result.fix = true;
+    } else if (arg === "--backfill") {
+      result.backfill = true;
+    } else if (arg === "--full") {
+      result.full = true;
+    } else if (arg === "--tag") {
+      result.tag = args[++i];
+    } else if (arg === "--status") {
+      result.status = args[++i]!.split(",").map((status) => status.trim()).filter(Boolean);
+    } else if (arg === "--format") {
+      result.format = args[++i];
+    } else if (arg === "--stale") {
+      result.stale = true;
+    } else if (arg === "--outputs") {
+      result.outputs = args[++i]!.split(",").map((name) => name.trim()).filter(Boolean);
+    } else if (arg === "--rpm") {
+      result.rpm = parseFloat(args[++i]!);
+      if (!(result.rpm > 0)) {
+        console.error(`❌ Usage: --rpm <requests per minute> (a positive number)`);
+        process.exit(EXIT_ERROR);
+      }
+    } else if (arg === "--kind") {
+      result.kind = args[++i];
     } else if (arg === "-h" || arg === "--help") {
       result.command = "help";
     } else if (arg === "-v" || arg === "--version") {
@@ -774,6 +6047,7 @@ function parseArgs(args: string[]): ParsedArgs {
         result.command = arg;
       } else {
         result.target = arg;
+        result.targets.push(arg!);
       }
     }
   }
@@ -787,15 +6061,29 @@ function parseArgs(args: string[]): ParsedArgs {
 
 const args = parseArgs(process.argv.slice(2));
 
-if (args.config) CONFIG_PATH = args.config;
+// Release source locks however we exit; signals go through process.exit so the
+// "exit" handler runs (in-progress videos are reclaimed by the next run)
+process.on("exit", releaseSourceLocks);
+process.on("SIGINT", () => (onShutdownSignal ? onShutdownSignal(130) : process.exit(130)));
+process.on("SIGTERM", () => (onShutdownSignal ? onShutdownSignal(143) : process.exit(143)));
+
+// Without -c, use whichever of bulk-summarize.json/.yaml/.yml exists
+CONFIG_PATH = args.config ?? CONFIG_FILE_NAMES.find((name) => existsSync(name)) ?? CONFIG_PATH;
 if (args.outputDir) OUTPUT_DIR = args.outputDir;
+// search --json keeps its own one-result-per-line format
+if (args.json && args.command !== "search") {
+  JSON_EVENTS = true;
+  // Bun writes a bare console.error() to stdout, so always pass an argument
+  const toStderr = console.error;
+  console.log = console.error = (...data: unknown[]) => toStderr(...(data.length > 0 ? data : [""]));
+}
 
 switch (args.command) {
   case "init":
     await cmdInit(args.target);
     break;
   case "scan":
-    await cmdScan({ source: args.source });
+    await cmdScan({ source: args.source, backfill: args.backfill, full: args.full, limit: args.limit });
     break;
   case "summarize":
     await cmdSummarize({
@@ -803,10 +6091,71 @@ switch (args.command) {
       source: args.source,
       delay: args.delay,
       parallel: args.parallel,
+      rpm: args.rpm,
+      stale: args.stale,
+      maxCost: args.maxCost,
+      maxMinutes: args.maxMinutes,
+    });
+    break;
+  case "watch":
+    await cmdWatch({
+      once: args.once,
+      delay: args.delay,
+      parallel: args.parallel,
+      rpm: args.rpm,
+    });
+    break;
+  case "transcripts":
+    await cmdTranscripts({
+      limit: args.limit,
+      source: args.source,
+      parallel: args.parallel,
+      rpm: args.rpm,
     });
     break;
+  case "retry":
+    await cmdRetry({ source: args.source, kind: args.kind });
+    break;
   case "combine":
-    await cmdCombine({ output: args.output });
+    await cmdCombine({
+      output: args.output,
+      outputs: args.outputs,
+      format: args.format,
+      source: args.source,
+      tag: args.tag,
+      since: args.since,
+      until: args.until,
+      groupBy: args.groupBy,
+    });
+    break;
+  case "export":
+    await cmdExport({
+      output: args.output,
+      format: args.format,
+      source: args.source,
+      tag: args.tag,
+      status: args.status,
+      outputs: args.outputs,
+    });
+    break;
+  case "extract":
+    await cmdExtract({ output: args.output, format: args.format, source: args.source, tag: args.tag });
+    break;
+  case "search":
+    await cmdSearch(args.target, {
+      source: args.source,
+      tag: args.tag,
+      limit: args.limit,
+      json: args.json,
+    });
+    break;
+  case "digest":
+    await cmdDigest(args.target, {
+      source: args.source,
+      tag: args.tag,
+      limit: args.limit,
+      output: args.output,
+    });
     break;
   case "status":
     await cmdStatus();
@@ -814,13 +6163,52 @@ switch (args.command) {
   case "list":
     await cmdList();
     break;
+  case "add":
+    await cmdAdd(args.target, { tags: args.tags, keywords: args.keywords });
+    break;
+  case "remove":
+    await cmdRemove(args.target, { purge: args.purge });
+    break;
+  case "enable":
+  case "disable":
+    await cmdSetEnabled(args.target, args.command === "enable");
+    break;
+  case "doctor":
+    await cmdDoctor({ fix: args.fix });
+    break;
+  case "validate":
+    await cmdValidate();
+    break;
+  case "schema":
+    await cmdSchema({ output: args.output });
+    break;
   case "reset":
-    await cmdReset(args.target);
+    await cmdReset(args.target, { status: args.status });
+    break;
+  case "queue":
+    if (args.targets[0] === "list") {
+      await cmdQueueList({ source: args.source, status: args.status, limit: args.limit });
+    } else if (args.targets[0] === "add") {
+      await cmdQueueAdd(args.targets[1], { source: args.source });
+    } else {
+      console.error(`❌ Usage: bulk-summarize queue list [--status <a,b>] | queue add <video-url> --source <id>`);
+      process.exit(EXIT_ERROR);
+    }
+    break;
+  case "skip":
+    await cmdSkip(args.targets, { source: args.source });
+    break;
+  case "requeue":
+    await cmdRequeue(args.targets, { source: args.source, status: args.status });
     break;
   case "version":
     console.log(`bulk-summarize v${VERSION}`);
     break;
   case "help":
+    printHelp();
+    break;
   default:
+    console.error(`❌ Unknown command: ${args.command}\n`);
     printHelp();
+    process.exit(EXIT_ERROR);
 }